@@ -0,0 +1,819 @@
+import { FilterExpression, FilterExpressionNode } from './FilterExpression';
+import { FilterPredicate, FilterPredicateNode } from './FilterPredicate';
+
+// Headless filter engine: everything that decides which lines a filter shows, with no dependency on
+// Obsidian or the editor, so it can be shared by the editor extension, the copy handler and tests.
+
+export type FilterPolarity = 'include' | 'exclude';
+export type FilterCombineMode = 'any' | 'all'; // OR / AND across active include filters
+
+// Regions of a note that can be kept out of matching
+export type SkipZone = 'frontmatter' | 'codeBlock' | 'comment';
+// 'match' treats the zone like any other text; the other modes never match inside it and then
+// leave the lines to the usual child/heading/context rules ('skip'), always hide them or always show them.
+export type SkipZoneMode = 'match' | 'skip' | 'hide' | 'show';
+export type SkipZoneSettings = Record<SkipZone, SkipZoneMode>;
+
+export interface ActiveFilter {
+  regex: string; // The original, UNRESOLVED string
+  polarity: FilterPolarity; // 'include' shows matching lines, 'exclude' hides them
+  flags?: string; // Extra RegExp flags (i, m, s); 'u' is always applied
+  contextLinesBefore?: number; // Per-filter context override, copied from the saved filter
+  contextLinesAfter?: number;
+  includeChildItems?: boolean; // Per-filter overrides of the editor options, copied from the saved filter
+  includeHeadingChildItems?: boolean;
+  hideEmptyLines?: boolean;
+  template?: string; // For filters made from a parameterised saved filter: its regex with the {{?...}} placeholders
+}
+
+// The editor options a single filter can override; unset options use the editor's value
+export type FilterOptionOverrides = Pick<ActiveFilter, 'includeChildItems' | 'includeHeadingChildItems' | 'hideEmptyLines'>;
+
+const OVERRIDE_KEYS: (keyof FilterOptionOverrides)[] = ['includeChildItems', 'includeHeadingChildItems', 'hideEmptyLines'];
+
+export function hasOptionOverrides(filter: FilterOptionOverrides): boolean {
+  return OVERRIDE_KEYS.some(key => filter[key] !== undefined);
+}
+
+// --- Regex literals and flags ---
+const SUPPORTED_REGEX_FLAGS = 'ims'; // 'u' is always added; 'g' and 'y' would make RegExp.test() stateful
+
+export interface ParsedRegexInput {
+  regex: string;
+  flags: string; // Extra flags on top of 'u', e.g. 'i'
+}
+
+// Splits `/pattern/flags` literal syntax into its parts. Plain input is returned as-is with no extra flags.
+export function parseRegexInput(input: string): ParsedRegexInput {
+  const literal = input.match(/^\/([\s\S]+)\/([a-z]*)$/);
+  if (!literal) {
+    return { regex: input, flags: "" };
+  }
+  return { regex: literal[1], flags: normalizeRegexFlags(literal[2]) };
+}
+
+// Validates and de-duplicates user supplied flags. Throws on unsupported flags.
+export function normalizeRegexFlags(flags: string): string {
+  let normalized = "";
+  for (const flag of flags) {
+    if (flag === 'u' || normalized.includes(flag)) continue;
+    if (!SUPPORTED_REGEX_FLAGS.includes(flag)) {
+      throw new Error(`Unsupported regex flag "${flag}". Supported flags: ${SUPPORTED_REGEX_FLAGS.split('').join(', ')}`);
+    }
+    normalized += flag;
+  }
+  return normalized;
+}
+
+export function regexFlagsFor(filter: { flags?: string }): string {
+  return (filter.flags ?? "") + 'u';
+}
+
+export function formatRegexLiteral(regex: string, flags?: string): string {
+  return `/${regex}/${regexFlagsFor({ flags })}`;
+}
+
+export interface RegexSyntaxError {
+  message: string; // The message of the RegExp SyntaxError
+  index: number | null; // Offset in the pattern where the problem was found, when it can be located
+}
+
+/**
+ * Compiles a pattern and reports why it is invalid, with the position of the problem where possible.
+ * @param source The resolved pattern, without slashes.
+ * @param flags The flags as passed to RegExp, including 'u'.
+ * @returns null for a valid pattern.
+ */
+export function validateRegex(source: string, flags: string): RegexSyntaxError | null {
+  try {
+    new RegExp(source, flags);
+    return null;
+  } catch (e) {
+    return { message: (e as Error).message, index: locateRegexError(source) };
+  }
+}
+
+// RegExp errors do not say where the problem is, so the common mistakes are located by scanning the pattern:
+// unbalanced groups and classes, quantifiers without a target, lone braces (invalid with 'u') and a trailing backslash.
+function locateRegexError(source: string): number | null {
+  const openGroups: number[] = [];
+  let classStart = -1;
+  let canRepeat = false; // Whether the previous token is something a quantifier can apply to
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      if (i === source.length - 1) return i;
+      i++;
+      canRepeat = true;
+      continue;
+    }
+    if (classStart >= 0) {
+      if (char === ']') {
+        classStart = -1;
+        canRepeat = true;
+      }
+      continue;
+    }
+    switch (char) {
+      case '[':
+        classStart = i;
+        break;
+      case '(':
+        openGroups.push(i);
+        // Skip the group prefix: (?: (?= (?! (?<= (?<! (?<name>
+        if (source[i + 1] === '?') {
+          const prefix = source.slice(i + 1).match(/^\?(<[A-Za-z_$][\w$]*>|<[=!]|[:=!])/);
+          if (!prefix) return i;
+          i += prefix[0].length;
+        }
+        canRepeat = false;
+        break;
+      case ')':
+        if (openGroups.length === 0) return i;
+        openGroups.pop();
+        canRepeat = true;
+        break;
+      case '|':
+        canRepeat = false;
+        break;
+      case '*':
+      case '+':
+      case '?':
+        if (!canRepeat) return i;
+        if (source[i + 1] === '?') i++; // Lazy quantifier
+        canRepeat = false;
+        break;
+      case '{': {
+        const quantifier = source.slice(i).match(/^\{\d+(,\d*)?\}/);
+        if (!quantifier || !canRepeat) return i;
+        i += quantifier[0].length - 1;
+        if (source[i + 1] === '?') i++;
+        canRepeat = false;
+        break;
+      }
+      case '}':
+        return i;
+      default:
+        canRepeat = char !== '^' && char !== '$';
+    }
+  }
+  if (classStart >= 0) return classStart;
+  if (openGroups.length > 0) return openGroups[openGroups.length - 1];
+  return null;
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// --- Filter parameters ---
+// Placeholders such as `@{{?Person}}` or `{{?Status|todo,doing,done}}` in saved filters, filled in when the filter is toggled.
+const PARAMETER_REGEX = /\{\{\?([^|}]+)(?:\|([^}]*))?\}\}/g;
+
+export interface FilterParameter {
+  name: string;
+  options: string[]; // Allowed values; empty for free text
+}
+
+export function hasFilterParameters(regex: string): boolean {
+  return findFilterParameters(regex).length > 0;
+}
+
+// Lists the placeholders of a regex in order of appearance. A name used twice is asked for once.
+export function findFilterParameters(regex: string): FilterParameter[] {
+  const parameters: FilterParameter[] = [];
+  for (const match of regex.matchAll(PARAMETER_REGEX)) {
+    const name = match[1].trim();
+    if (name === "" || parameters.some(p => p.name === name)) continue;
+    const options = (match[2] ?? "").split(',').map(option => option.trim()).filter(option => option !== "");
+    parameters.push({ name, options });
+  }
+  return parameters;
+}
+
+// Substitutes the values, escaped so they match literally. Placeholders without a value are left as they are.
+export function fillFilterParameters(regex: string, values: Record<string, string>): string {
+  return regex.replace(PARAMETER_REGEX, (placeholder, name: string) => {
+    const value = values[name.trim()];
+    return value === undefined ? placeholder : escapeRegExp(value);
+  });
+}
+
+// The fields of a saved filter (SavedRegexItem in main.ts) that carry over to the filters made from it
+export type SavedFilterFields = Omit<ActiveFilter, 'polarity' | 'template'> & { polarity?: FilterPolarity };
+
+// The active filter for a saved filter, with its per-filter options
+export function toActiveFilter(item: SavedFilterFields): ActiveFilter {
+  const filter: ActiveFilter = { regex: item.regex, polarity: item.polarity ?? 'include' };
+  if (item.flags) filter.flags = item.flags;
+  if (item.contextLinesBefore !== undefined) filter.contextLinesBefore = item.contextLinesBefore;
+  if (item.contextLinesAfter !== undefined) filter.contextLinesAfter = item.contextLinesAfter;
+  if (item.includeChildItems !== undefined) filter.includeChildItems = item.includeChildItems;
+  if (item.includeHeadingChildItems !== undefined) filter.includeHeadingChildItems = item.includeHeadingChildItems;
+  if (item.hideEmptyLines !== undefined) filter.hideEmptyLines = item.hideEmptyLines;
+  return filter;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Converts persisted entries to ActiveFilter objects. Older versions stored plain regex strings.
+export function normalizeActiveFilters(entries: unknown[]): ActiveFilter[] {
+  return entries
+    .map((entry: unknown): ActiveFilter | null => {
+      if (typeof entry === 'string') return { regex: entry, polarity: 'include' };
+      if (isRecord(entry) && typeof entry.regex === 'string') {
+        const filter: ActiveFilter = { regex: entry.regex, polarity: entry.polarity === 'exclude' ? 'exclude' : 'include' };
+        if (typeof entry.flags === 'string' && entry.flags !== "") filter.flags = entry.flags;
+        if (typeof entry.contextLinesBefore === 'number') filter.contextLinesBefore = entry.contextLinesBefore;
+        if (typeof entry.contextLinesAfter === 'number') filter.contextLinesAfter = entry.contextLinesAfter;
+        for (const key of OVERRIDE_KEYS) {
+          const value = entry[key];
+          if (typeof value === 'boolean') filter[key] = value;
+        }
+        if (typeof entry.template === 'string') filter.template = entry.template;
+        return filter;
+      }
+      return null;
+    })
+    .filter((f): f is ActiveFilter => f !== null);
+}
+
+// Reads a filter list written by serializeFilterList, e.g. a note's frontmatter property.
+// Strings are regexes or `/pattern/flags` literals; objects carry exclusions, context and option overrides.
+export function parseFilterList(value: unknown): ActiveFilter[] {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+  return normalizeActiveFilters(entries.map(entry => {
+    if (typeof entry !== 'string') return entry;
+    try {
+      const parsed = parseRegexInput(entry);
+      return parsed.flags ? { regex: parsed.regex, polarity: 'include', flags: parsed.flags } : parsed.regex;
+    } catch (e) {
+      return entry; // Not a valid literal, e.g. `/a/g`: use the whole string as the regex
+    }
+  }));
+}
+
+// Writes filters in the most readable form parseFilterList accepts.
+export function serializeFilterList(filters: ActiveFilter[]): (string | ActiveFilter)[] {
+  return filters.map(filter => {
+    if (filter.polarity === 'exclude' || filter.contextLinesBefore !== undefined || filter.contextLinesAfter !== undefined || hasOptionOverrides(filter) || filter.template !== undefined) {
+      return { ...filter };
+    }
+    // A plain regex that looks like a literal must be written as one, or it would be read back without its slashes
+    return filter.flags || /^\/[\s\S]+\/[a-z]*$/.test(filter.regex) ? formatRegexLiteral(filter.regex, filter.flags) : filter.regex;
+  });
+}
+
+// --- Compiling filters ---
+type LineMatcher = (text: string) => boolean;
+
+// A filter split into its resolved regex and the optional `where` clause on its named groups
+export interface FilterPattern {
+  source: string;
+  predicate: FilterPredicateNode | null;
+}
+
+/**
+ * Splits off a `where` clause (see FilterPredicate.split) and resolves templates in both parts.
+ * @param regex The unresolved filter regex, e.g. `(?<est>\d+)h where est > 4`.
+ * @param resolve Template resolution.
+ * @returns The resolved regex source and the parsed clause.
+ * @throws Error when the where clause is invalid.
+ */
+export function parseFilterPattern(regex: string, resolve: (s: string) => string): FilterPattern {
+  const { pattern, predicate } = FilterPredicate.split(regex);
+  const source = resolve(pattern);
+  return {
+    source,
+    predicate: predicate === null ? null : FilterPredicate.parse(resolve(predicate), FilterPredicate.groupNames(source)),
+  };
+}
+
+/**
+ * Compiles a filter regex, including its `where` clause, into a line test.
+ * With a clause, a line matches when any match of the regex satisfies it.
+ * @throws Error when the regex, its flags or the where clause are invalid.
+ */
+export function compileFilterMatcher(regex: string, flags: string, resolve: (s: string) => string): LineMatcher {
+  const { source, predicate } = parseFilterPattern(regex, resolve);
+  const plain = new RegExp(source, flags);
+  if (!predicate) {
+    return (text: string) => plain.test(text);
+  }
+  const global = new RegExp(source, flags + 'g');
+  return (text: string) => {
+    global.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(text)) !== null) {
+      if (FilterPredicate.evaluate(predicate, match.groups ?? {})) return true;
+      if (match[0].length === 0) global.lastIndex++;
+    }
+    return false;
+  };
+}
+
+export interface CompiledFilters {
+  include: LineMatcher | null; // null when no include filter is active, i.e. every line is a candidate
+  exclude: LineMatcher | null; // null when no exclude filter is active
+  highlighters: MatchHighlighter[]; // Global versions of the include regexes, used for match highlighting
+  contextFor: (text: string) => { before: number; after: number }; // Context lines around a directly matched line
+  overridesFor: (text: string, polarity: FilterPolarity) => FilterOptionOverrides; // Merged overrides of the filters matching a line
+  skipZones: SkipZoneSettings;
+}
+
+export interface MatchHighlighter {
+  regex: RegExp; // Has the 'g' flag, plus 'd' when capture group indices are available
+  colorIndex: number; // Position of the filter in the active filter list
+  predicate: FilterPredicateNode | null; // Matches that fail the filter's where clause are not highlighted
+}
+
+export interface FilterCompileOptions {
+  resolve: (s: string) => string; // Template resolution, applied before compiling
+  combineMode: FilterCombineMode;
+  combineExpression: string; // e.g. `work & !done`; overrides combineMode when non-empty
+  nameFor: (filter: ActiveFilter) => string | undefined; // Name used to reference a filter in an expression
+  contextLinesBefore: number;
+  contextLinesAfter: number;
+  skipZones: SkipZoneSettings;
+}
+
+export const DEFAULT_COMPILE_OPTIONS: FilterCompileOptions = {
+  resolve: s => s,
+  combineMode: 'any',
+  combineExpression: "",
+  nameFor: () => undefined,
+  contextLinesBefore: 0,
+  contextLinesAfter: 0,
+  skipZones: { frontmatter: 'match', codeBlock: 'match', comment: 'match' },
+};
+
+interface CompiledFilter extends FilterOptionOverrides {
+  name: string | undefined; // Lower-cased saved filter name, if any
+  test: LineMatcher;
+  contextLinesBefore?: number; // Per-filter override of FilterCompileOptions.contextLinesBefore
+  contextLinesAfter?: number;
+}
+
+const NO_OVERRIDES: FilterOptionOverrides = Object.freeze({});
+
+// Each filter is compiled separately because a single combined RegExp cannot carry per-filter flags.
+function compileEach(filters: ActiveFilter[], options: FilterCompileOptions): CompiledFilter[] {
+  const compiled: CompiledFilter[] = [];
+  for (const filter of filters) {
+    if (filter.regex.trim() === "") continue;
+    try {
+      compiled.push({
+        name: options.nameFor(filter)?.trim().toLowerCase(),
+        test: compileFilterMatcher(filter.regex, regexFlagsFor(filter), options.resolve),
+        contextLinesBefore: filter.contextLinesBefore,
+        contextLinesAfter: filter.contextLinesAfter,
+        includeChildItems: filter.includeChildItems,
+        includeHeadingChildItems: filter.includeHeadingChildItems,
+        hideEmptyLines: filter.hideEmptyLines,
+      });
+    } catch (e) {
+      console.error("Regex Line Filter: Skipping invalid regex", e, formatRegexLiteral(filter.regex, filter.flags));
+    }
+  }
+  return compiled;
+}
+
+// Merges the overrides of all filters matching one line. Showing more wins: children and heading sections are
+// included when any matching filter includes them, and blank lines are shown when any matching filter shows them.
+// An option is left unset, i.e. taken from the editor, when no matching filter decides it.
+function mergeOverrides(matching: CompiledFilter[]): FilterOptionOverrides {
+  if (matching.every(c => !hasOptionOverrides(c))) return NO_OVERRIDES;
+  const merge = (key: keyof FilterOptionOverrides, preferred: boolean): boolean | undefined => {
+    if (matching.some(c => c[key] === preferred)) return preferred;
+    return matching.every(c => c[key] !== undefined) ? !preferred : undefined;
+  };
+  return {
+    includeChildItems: merge('includeChildItems', true),
+    includeHeadingChildItems: merge('includeHeadingChildItems', true),
+    hideEmptyLines: merge('hideEmptyLines', false),
+  };
+}
+
+export function compileActiveFilters(filters: ActiveFilter[], options: FilterCompileOptions): CompiledFilters {
+  const included = compileEach(filters.filter(f => f.polarity === 'include'), options);
+  const excluded = compileEach(filters.filter(f => f.polarity === 'exclude'), options);
+  return {
+    include: buildIncludeMatcher(included, options),
+    exclude: excluded.length > 0 ? (text: string) => excluded.some(c => c.test(text)) : null,
+    highlighters: buildMatchHighlighters(filters, options),
+    skipZones: options.skipZones,
+    contextFor: (text: string) => {
+      // The widest context among the filters matching this line wins; lines matched only through
+      // an expression (e.g. `!done`) use the defaults.
+      const matching = included.filter(c => c.test(text));
+      if (matching.length === 0) {
+        return { before: options.contextLinesBefore, after: options.contextLinesAfter };
+      }
+      return {
+        before: Math.max(...matching.map(c => c.contextLinesBefore ?? options.contextLinesBefore)),
+        after: Math.max(...matching.map(c => c.contextLinesAfter ?? options.contextLinesAfter)),
+      };
+    },
+    overridesFor: (text: string, polarity: FilterPolarity) => {
+      const candidates = polarity === 'include' ? included : excluded;
+      return candidates.some(hasOptionOverrides) ? mergeOverrides(candidates.filter(c => c.test(text))) : NO_OVERRIDES;
+    },
+  };
+}
+
+function buildIncludeMatcher(compiled: CompiledFilter[], options: FilterCompileOptions): LineMatcher | null {
+  if (compiled.length === 0) return null;
+
+  let expression: FilterExpressionNode | null = null;
+  if (options.combineExpression.trim() !== "") {
+    try {
+      expression = FilterExpression.parse(options.combineExpression);
+    } catch (e) {
+      console.error("Regex Line Filter: Invalid filter expression, falling back to combination mode", e, options.combineExpression);
+    }
+  }
+
+  if (expression) {
+    const tree = expression;
+    // Names not matching an active filter evaluate to false
+    return (text: string) => FilterExpression.evaluate(tree, name => {
+      const key = name.trim().toLowerCase();
+      return compiled.some(c => c.name === key && c.test(text));
+    });
+  }
+  if (options.combineMode === 'all') {
+    return (text: string) => compiled.every(c => c.test(text));
+  }
+  return (text: string) => compiled.some(c => c.test(text));
+}
+
+function buildMatchHighlighters(filters: ActiveFilter[], options: FilterCompileOptions): MatchHighlighter[] {
+  const highlighters: MatchHighlighter[] = [];
+  filters.forEach((filter, colorIndex) => {
+    if (filter.polarity !== 'include' || filter.regex.trim() === "") return;
+    let pattern: FilterPattern;
+    try {
+      pattern = parseFilterPattern(filter.regex, options.resolve);
+    } catch (e) {
+      return; // Invalid where clauses are already reported by compileEach
+    }
+    const { source, predicate } = pattern;
+    const flags = regexFlagsFor(filter) + 'g';
+    try {
+      highlighters.push({ regex: new RegExp(source, flags + 'd'), colorIndex, predicate });
+    } catch (e) {
+      try {
+        // Older runtimes without match indices: highlight whole matches only
+        highlighters.push({ regex: new RegExp(source, flags), colorIndex, predicate });
+      } catch (e) {
+        // Invalid patterns are already reported by compileEach
+      }
+    }
+  });
+  return highlighters;
+}
+
+export function textMatchesFilters(text: string, compiled: CompiledFilters): boolean {
+  const isIncluded = compiled.include ? compiled.include(text) : true;
+  const isExcluded = compiled.exclude ? compiled.exclude(text) : false;
+  return isIncluded && !isExcluded;
+}
+
+// --- Match metadata ---
+export interface MatchSpan {
+  from: number; // Offsets within the line
+  to: number;
+  colorIndex: number;
+  group?: string; // Set for named capture groups; unset for the whole match
+}
+
+// Lists every match (and optionally every named capture group) of the highlighters on one line.
+export function findMatchSpans(text: string, highlighters: MatchHighlighter[], includeCaptureGroups: boolean): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+  for (const { regex, colorIndex, predicate } of highlighters) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++; // Avoid looping forever on empty matches
+        continue;
+      }
+      if (predicate && !FilterPredicate.evaluate(predicate, match.groups ?? {})) continue;
+      spans.push({ from: match.index, to: match.index + match[0].length, colorIndex });
+
+      const groupIndices = (match as RegExpExecArray & { indices?: { groups?: { [name: string]: [number, number] | undefined } } }).indices?.groups;
+      if (includeCaptureGroups && groupIndices) {
+        for (const [group, span] of Object.entries(groupIndices)) {
+          if (!span || span[0] === span[1]) continue;
+          spans.push({ from: span[0], to: span[1], colorIndex, group });
+        }
+      }
+    }
+  }
+  return spans;
+}
+
+// --- Visibility map ---
+// 'match' lines are results (matches and their children), 'context' lines are grep-style surroundings of a match.
+export type LineVisibility = 'hidden' | 'match' | 'context';
+
+// The subset of CodeMirror's Text used by the engine; `textLines()` adapts a plain string array.
+export interface LineSource {
+  lines: number;
+  line(lineNumber: number): { text: string }; // 1-based
+}
+
+export function textLines(lines: string[]): LineSource {
+  return { lines: lines.length, line: (lineNumber: number) => ({ text: lines[lineNumber - 1] }) };
+}
+
+export interface VisibilityOptions {
+  includeChildItems: boolean;
+  includeHeadingChildItems: boolean;
+}
+
+// Per-line facts that only depend on the line's own text, so they can be cached and re-used across edits.
+export interface LineMatchInfo {
+  include: boolean; // Directly matched by the include filters
+  exclude: boolean; // Directly matched by an exclude filter
+  indent: number;
+  headingLevel: number; // 0 when the line is not a heading
+  contextBefore: number; // Only meaningful when `include` is true
+  contextAfter: number;
+  includeOverrides: FilterOptionOverrides; // Overrides of the include filters matching the line
+  excludeOverrides: FilterOptionOverrides; // Overrides of the exclude filters matching the line
+  fence: string | null; // The backtick or tilde run when the line opens or closes a code fence
+  frontmatterDelimiter: boolean; // `---` or `...` on a line of its own
+  commentToggles: number; // Number of `%%` markers; an odd count opens or closes a multi-line comment
+}
+
+export interface VisibilityMap {
+  compiled: CompiledFilters | null; // null when no filter is active or none of them compiled
+  lines: LineMatchInfo[]; // 1-based like doc.line(); index 0 is unused
+  visibility: LineVisibility[]; // 1-based like doc.line(); index 0 is unused
+  hideEmptyLines: (boolean | undefined)[]; // Per-line override of the editor's hideEmptyLines; see shouldHideLine
+}
+
+export const EMPTY_VISIBILITY_MAP: VisibilityMap = { compiled: null, lines: [], visibility: [], hideEmptyLines: [] };
+
+// Line numbers touched by one change: old lines fromLineA..toLineA became new lines fromLineB..toLineB.
+export interface ChangedLineRange {
+  fromLineA: number;
+  toLineA: number;
+  fromLineB: number;
+  toLineB: number;
+}
+
+export function analyzeLine(text: string, compiled: CompiledFilters): LineMatchInfo {
+  const indentMatch = text.match(/^(\s*)/);
+  const headingMatch = text.match(/^(#+)\s/);
+  const fenceMatch = text.match(/^\s*(`{3,}|~{3,})/);
+  // Inline `%% comments %%` are removed before matching; lines inside multi-line comments are handled by deriveVisibility
+  const matchText = compiled.skipZones.comment === 'match' ? text : text.replace(/%%[\s\S]*?%%/g, '');
+  // With no include filter every line is a candidate, but none of them is a match that pulls in context
+  const include = compiled.include ? compiled.include(matchText) : false;
+  const context = include ? compiled.contextFor(matchText) : { before: 0, after: 0 };
+  const exclude = compiled.exclude ? compiled.exclude(matchText) : false;
+  return {
+    include,
+    exclude,
+    indent: indentMatch ? indentMatch[1].length : 0,
+    headingLevel: headingMatch ? headingMatch[1].length : 0,
+    contextBefore: context.before,
+    contextAfter: context.after,
+    includeOverrides: include ? compiled.overridesFor(matchText, 'include') : NO_OVERRIDES,
+    excludeOverrides: exclude ? compiled.overridesFor(matchText, 'exclude') : NO_OVERRIDES,
+    fence: fenceMatch ? fenceMatch[1] : null,
+    frontmatterDelimiter: /^(---|\.\.\.)\s*$/.test(text),
+    commentToggles: (text.match(/%%/g) || []).length,
+  };
+}
+
+// Finds the zone of every line. Zones span several lines, so this runs over the whole document after each change.
+function detectSkipZones(lines: LineMatchInfo[]): (SkipZone | null)[] {
+  const zones: (SkipZone | null)[] = new Array(lines.length).fill(null);
+  let start = 1;
+  if (lines.length > 2 && lines[1].frontmatterDelimiter) {
+    let end = 2;
+    while (end < lines.length && !lines[end].frontmatterDelimiter) end++;
+    if (end < lines.length) {
+      zones.fill('frontmatter', 1, end + 1);
+      start = end + 1;
+    }
+  }
+
+  let openFence: string | null = null;
+  let inComment = false;
+  for (let i = start; i < lines.length; i++) {
+    const info = lines[i];
+    if (openFence) {
+      // A fence closes with the same character, at least as many times
+      zones[i] = 'codeBlock';
+      if (info.fence && info.fence[0] === openFence[0] && info.fence.length >= openFence.length) openFence = null;
+    } else if (inComment) {
+      zones[i] = 'comment';
+      if (info.commentToggles % 2 === 1) inComment = false;
+    } else if (info.fence) {
+      zones[i] = 'codeBlock';
+      openFence = info.fence;
+    } else if (info.commentToggles % 2 === 1) {
+      zones[i] = 'comment';
+      inComment = true;
+    }
+  }
+  return zones;
+}
+
+function analyzeDocument(source: LineSource, compiled: CompiledFilters): LineMatchInfo[] {
+  const lines: LineMatchInfo[] = [];
+  for (let i = 1; i <= source.lines; i++) {
+    lines[i] = analyzeLine(source.line(i).text, compiled);
+  }
+  return lines;
+}
+
+// Re-uses the cached info of untouched lines and only re-runs the regexes on lines inside changed ranges.
+function remapLineInfo(previous: LineMatchInfo[], changes: ChangedLineRange[], source: LineSource, compiled: CompiledFilters): LineMatchInfo[] {
+  const lines: LineMatchInfo[] = [];
+  let nextOldLine = 1;
+  let nextNewLine = 1;
+  for (const change of changes) {
+    // Lines between two changes are unchanged and keep their order
+    while (nextOldLine < change.fromLineA) {
+      lines[nextNewLine++] = previous[nextOldLine++];
+    }
+    while (nextNewLine <= change.toLineB) {
+      lines[nextNewLine] = analyzeLine(source.line(nextNewLine).text, compiled);
+      nextNewLine++;
+    }
+    nextOldLine = Math.max(nextOldLine, change.toLineA + 1);
+  }
+  while (nextNewLine <= source.lines) {
+    lines[nextNewLine] = previous[nextOldLine] ?? analyzeLine(source.line(nextNewLine).text, compiled);
+    nextNewLine++;
+    nextOldLine++;
+  }
+  return lines;
+}
+
+// Expands direct matches to their indented children and heading sections in a single pass, honouring the
+// overrides of the filters matching each parent. A stack holds the matched parents that are still "open",
+// i.e. not yet closed by a line at the same or a shallower level.
+function expandMatches(lines: LineMatchInfo[], polarity: FilterPolarity, options: VisibilityOptions): boolean[] {
+  const marked = new Array(lines.length).fill(false);
+  const openIndents: number[] = [];
+  const openHeadings: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const info = lines[i];
+    while (openIndents.length > 0 && openIndents[openIndents.length - 1] >= info.indent) {
+      openIndents.pop();
+    }
+    if (info.headingLevel > 0) {
+      while (openHeadings.length > 0 && openHeadings[openHeadings.length - 1] >= info.headingLevel) {
+        openHeadings.pop();
+      }
+    }
+    const matched = polarity === 'include' ? info.include : info.exclude;
+    marked[i] = matched || openIndents.length > 0 || openHeadings.length > 0;
+    if (matched) {
+      const overrides = polarity === 'include' ? info.includeOverrides : info.excludeOverrides;
+      if (overrides.includeChildItems ?? options.includeChildItems) openIndents.push(info.indent);
+      if ((overrides.includeHeadingChildItems ?? options.includeHeadingChildItems) && info.headingLevel > 0) openHeadings.push(info.headingLevel);
+    }
+  }
+  return marked;
+}
+
+// Hidden blank lines follow the hideEmptyLines override of the nearest direct match above them,
+// so the gaps after one filter's results can stay open while another filter's are closed.
+function deriveEmptyLineOverrides(lines: LineMatchInfo[]): (boolean | undefined)[] {
+  const overrides: (boolean | undefined)[] = new Array(lines.length).fill(undefined);
+  let current: boolean | undefined = undefined;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].include) current = lines[i].includeOverrides.hideEmptyLines;
+    overrides[i] = current;
+  }
+  return overrides;
+}
+
+// A line is visible when it (or its parent) matches an include filter, and neither it nor its parent matches an exclude filter.
+function deriveVisibility(allLines: LineMatchInfo[], compiled: CompiledFilters, options: VisibilityOptions): Pick<VisibilityMap, 'visibility' | 'hideEmptyLines'> {
+  const modes = compiled.skipZones;
+  const zones = Object.values(modes).some(mode => mode !== 'match') ? detectSkipZones(allLines) : null;
+  const modeAt = (i: number): SkipZoneMode => {
+    const zone = zones ? zones[i] : null;
+    return zone ? modes[zone] : 'match';
+  };
+  // Lines in skipped zones never match, and headings inside code blocks do not start sections
+  const lines = zones
+      ? allLines.map((info, i) => modeAt(i) === 'match' ? info : { ...info, include: false, exclude: false, headingLevel: 0 })
+      : allLines;
+
+  const included = compiled.include
+      ? expandMatches(lines, 'include', options)
+      : new Array(lines.length).fill(true);
+  const excluded = compiled.exclude
+      ? expandMatches(lines, 'exclude', options)
+      : new Array(lines.length).fill(false);
+  const visibility: LineVisibility[] = included.map((isIncluded, i) => i > 0 && isIncluded && !excluded[i] ? 'match' : 'hidden');
+
+  // Context lines never override a real result and never resurrect an excluded line
+  for (let i = 1; i < lines.length; i++) {
+      const info = lines[i];
+      if (!info.include) continue;
+      for (let j = Math.max(1, i - info.contextBefore); j <= Math.min(lines.length - 1, i + info.contextAfter); j++) {
+          if (visibility[j] === 'hidden' && !excluded[j]) {
+              visibility[j] = 'context';
+          }
+      }
+  }
+
+  if (zones) {
+      for (let i = 1; i < lines.length; i++) {
+          const mode = modeAt(i);
+          if (mode === 'hide') visibility[i] = 'hidden';
+          else if (mode === 'show') visibility[i] = 'match';
+      }
+  }
+  return { visibility, hideEmptyLines: deriveEmptyLineOverrides(lines) };
+}
+
+export function buildVisibilityMap(source: LineSource, compiled: CompiledFilters | null, options: VisibilityOptions): VisibilityMap {
+  if (!compiled || (!compiled.include && !compiled.exclude)) return EMPTY_VISIBILITY_MAP;
+  const lines = analyzeDocument(source, compiled);
+  return { compiled, lines, ...deriveVisibility(lines, compiled, options) };
+}
+
+// Whether the editor should hide a line. With `hideEmptyLines` off, blank lines stay visible between results.
+// Callers pass `map.hideEmptyLines[line] ?? <editor option>` so per-filter overrides apply.
+export function shouldHideLine(visibility: LineVisibility | undefined, text: string, hideEmptyLines: boolean): boolean {
+  if (visibility !== 'hidden') return false;
+  return hideEmptyLines || text.trim().length > 0;
+}
+
+// Visibility of a rendered block spanning source lines `fromLine..toLine` (1-based, inclusive), e.g. a Reading view section.
+// A block is shown as a match when any of its lines matches, as context when it only holds context lines, and hidden otherwise.
+// Blank lines never keep a block visible.
+export function blockVisibility(map: VisibilityMap, source: LineSource, fromLine: number, toLine: number): LineVisibility {
+  if (!map.compiled) return 'match';
+  let result: LineVisibility = 'hidden';
+  for (let i = Math.max(1, fromLine); i <= Math.min(toLine, source.lines); i++) {
+    if (source.line(i).text.trim() === '') continue;
+    if (map.visibility[i] === 'match') return 'match';
+    if (map.visibility[i] === 'context') result = 'context';
+  }
+  return result;
+}
+
+// Next visible line after `fromLine` (1-based) that an include filter matched directly, wrapping around the document.
+// `direction` -1 searches backwards. Returns null when no other line matches.
+export function findMatchingLine(map: VisibilityMap, fromLine: number, direction: 1 | -1): number | null {
+  const total = map.lines.length - 1;
+  for (let step = 1; step <= total; step++) {
+    const i = ((fromLine - 1 + direction * step) % total + total) % total + 1;
+    if (i !== fromLine && map.lines[i]?.include && map.visibility[i] === 'match') return i;
+  }
+  return null;
+}
+
+// The line a line belongs to: the nearest less indented line above an indented line, otherwise the nearest
+// heading above it of a higher level. Blank lines are skipped. Returns null at the top level.
+export function findParentLine(source: LineSource, lineNumber: number): number | null {
+  const text = source.line(lineNumber).text;
+  const indent = (text.match(/^(\s*)/) as RegExpMatchArray)[1].length;
+  const headingMatch = text.match(/^(#+)\s/);
+  const headingLevel = headingMatch ? headingMatch[1].length : 0;
+  for (let i = lineNumber - 1; i >= 1; i--) {
+    const candidate = source.line(i).text;
+    if (candidate.trim() === '') continue;
+    if (indent > 0 && headingLevel === 0) {
+      if ((candidate.match(/^(\s*)/) as RegExpMatchArray)[1].length < indent) return i;
+      continue;
+    }
+    const candidateHeading = candidate.match(/^(#+)\s/);
+    if (candidateHeading && (headingLevel === 0 || candidateHeading[1].length < headingLevel)) return i;
+  }
+  return null;
+}
+
+// Updates a map after an edit. `changes` must be in document order; `source` is the edited text.
+export function updateVisibilityMap(map: VisibilityMap, source: LineSource, changes: ChangedLineRange[], options: VisibilityOptions): VisibilityMap {
+  if (!map.compiled) return map;
+  const lines = remapLineInfo(map.lines, changes, source, map.compiled);
+  return { compiled: map.compiled, lines, ...deriveVisibility(lines, map.compiled, options) };
+}
+
+/**
+ * Computes line visibility for plain text, e.g. for scripts or views without an editor.
+ * @param text The lines to filter.
+ * @param filters The active filters.
+ * @param options Child/heading handling plus any compile options that differ from DEFAULT_COMPILE_OPTIONS.
+ * @returns The visibility map; its arrays are 1-based, so `visibility[1]` describes `text[0]`.
+ */
+export function computeVisibility(text: string[], filters: ActiveFilter[], options: VisibilityOptions & Partial<FilterCompileOptions>): VisibilityMap {
+  if (filters.length === 0) return EMPTY_VISIBILITY_MAP;
+  const compiled = compileActiveFilters(filters, { ...DEFAULT_COMPILE_OPTIONS, ...options });
+  return buildVisibilityMap(textLines(text), compiled, options);
+}
@@ -0,0 +1,168 @@
+export type FilterExpressionNode =
+    | { type: 'ref'; name: string }
+    | { type: 'not'; operand: FilterExpressionNode }
+    | { type: 'and' | 'or'; left: FilterExpressionNode; right: FilterExpressionNode };
+
+type Token =
+    | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; position: number }
+    | { kind: 'name'; value: string; position: number };
+
+export class FilterExpression {
+    /**
+     * Parses a boolean filter expression such as `work & !done` or `(work | home) AND NOT done`.
+     * Operators: `&`/`&&`/`AND`, `|`/`||`/`OR`, `!`/`NOT` and parentheses. NOT binds tightest, then AND, then OR.
+     * Names refer to saved filters; names containing spaces or operators must be double-quoted.
+     * @param source The expression text.
+     * @returns The parsed expression tree.
+     * @throws Error describing the first syntax problem and its position.
+     */
+    public static parse(source: string): FilterExpressionNode {
+        const tokens = this.tokenize(source);
+        if (tokens.length === 0) {
+            throw new Error('Expression is empty');
+        }
+
+        let index = 0;
+        const peek = (): Token | undefined => tokens[index];
+        const fail = (message: string, token?: Token): never => {
+            const position = token ? token.position : source.length;
+            throw new Error(`${message} at position ${position + 1}`);
+        };
+
+        const parseOr = (): FilterExpressionNode => {
+            let left = parseAnd();
+            while (peek()?.kind === 'or') {
+                index++;
+                left = { type: 'or', left, right: parseAnd() };
+            }
+            return left;
+        };
+
+        const parseAnd = (): FilterExpressionNode => {
+            let left = parseUnary();
+            while (peek()?.kind === 'and') {
+                index++;
+                left = { type: 'and', left, right: parseUnary() };
+            }
+            return left;
+        };
+
+        const parseUnary = (): FilterExpressionNode => {
+            if (peek()?.kind === 'not') {
+                index++;
+                return { type: 'not', operand: parseUnary() };
+            }
+            return parsePrimary();
+        };
+
+        const parsePrimary = (): FilterExpressionNode => {
+            const token = peek();
+            if (!token) {
+                return fail('Unexpected end of expression');
+            }
+            if (token.kind === 'lparen') {
+                index++;
+                const inner = parseOr();
+                if (peek()?.kind !== 'rparen') {
+                    return fail('Expected ")"', peek());
+                }
+                index++;
+                return inner;
+            }
+            if (token.kind === 'name') {
+                index++;
+                return { type: 'ref', name: token.value };
+            }
+            return fail('Expected a filter name', token);
+        };
+
+        const tree = parseOr();
+        if (index < tokens.length) {
+            fail('Unexpected token', tokens[index]);
+        }
+        return tree;
+    }
+
+    /**
+     * Evaluates a parsed expression.
+     * @param node The expression tree returned by `parse`.
+     * @param isMatch Returns whether the filter with the given name matches the current line.
+     * @returns The boolean result of the expression.
+     */
+    public static evaluate(node: FilterExpressionNode, isMatch: (name: string) => boolean): boolean {
+        switch (node.type) {
+            case 'ref':
+                return isMatch(node.name);
+            case 'not':
+                return !this.evaluate(node.operand, isMatch);
+            case 'and':
+                return this.evaluate(node.left, isMatch) && this.evaluate(node.right, isMatch);
+            case 'or':
+                return this.evaluate(node.left, isMatch) || this.evaluate(node.right, isMatch);
+        }
+    }
+
+    /**
+     * Lists the filter names referenced by an expression.
+     * @param node The expression tree returned by `parse`.
+     * @returns The distinct names, in order of first appearance.
+     */
+    public static references(node: FilterExpressionNode): string[] {
+        const names: string[] = [];
+        const visit = (n: FilterExpressionNode) => {
+            if (n.type === 'ref') {
+                if (!names.includes(n.name)) names.push(n.name);
+            } else if (n.type === 'not') {
+                visit(n.operand);
+            } else {
+                visit(n.left);
+                visit(n.right);
+            }
+        };
+        visit(node);
+        return names;
+    }
+
+    /**
+     * Splits an expression into operator, parenthesis and name tokens.
+     * @param source The expression text.
+     * @returns The tokens in order.
+     */
+    private static tokenize(source: string): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+        while (i < source.length) {
+            const char = source[i];
+            if (/\s/.test(char)) {
+                i++;
+            } else if (char === '(' || char === ')') {
+                tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+                i++;
+            } else if (char === '&' || char === '|') {
+                tokens.push({ kind: char === '&' ? 'and' : 'or', position: i });
+                i += source[i + 1] === char ? 2 : 1; // Accept both `&` and `&&`
+            } else if (char === '!') {
+                tokens.push({ kind: 'not', position: i });
+                i++;
+            } else if (char === '"') {
+                const end = source.indexOf('"', i + 1);
+                if (end === -1) {
+                    throw new Error(`Unterminated quote at position ${i + 1}`);
+                }
+                tokens.push({ kind: 'name', value: source.slice(i + 1, end), position: i });
+                i = end + 1;
+            } else {
+                const match = source.slice(i).match(/^[^\s&|!()"]+/);
+                const word = match ? match[0] : char;
+                const keyword = word.toUpperCase();
+                if (keyword === 'AND' || keyword === 'OR' || keyword === 'NOT') {
+                    tokens.push({ kind: keyword.toLowerCase() as 'and' | 'or' | 'not', position: i });
+                } else {
+                    tokens.push({ kind: 'name', value: word, position: i });
+                }
+                i += word.length;
+            }
+        }
+        return tokens;
+    }
+}
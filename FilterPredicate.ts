@@ -0,0 +1,220 @@
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+// A literal, or the value of another named group
+export type PredicateOperand = { kind: 'literal'; value: string } | { kind: 'group'; name: string };
+
+export type FilterPredicateNode =
+    | { type: 'compare'; group: string; operator: ComparisonOperator; operand: PredicateOperand }
+    | { type: 'and' | 'or'; left: FilterPredicateNode; right: FilterPredicateNode };
+
+type Token =
+    | { kind: 'and' | 'or' | 'lparen' | 'rparen'; position: number }
+    | { kind: 'operator'; operator: ComparisonOperator; position: number }
+    | { kind: 'word'; value: string; quoted: boolean; position: number };
+
+// ` where ` followed by a comparison, e.g. `(?<est>\d+)h where est > 4`
+const WHERE_CLAUSE = /\s+where\s+(?=\(*\s*[A-Za-z_$][\w$]*\s*(<|>|=|!=))/g;
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+export class FilterPredicate {
+    /**
+     * Splits a filter into its regex and an optional `where` clause.
+     * The last ` where ` that is followed by a comparison starts the clause, so regexes may still contain the word.
+     * @param source The filter as typed, e.g. `(?<due>\d{4}-\d{2}-\d{2}) where due <= {{today}}`.
+     * @returns The regex and the clause without the keyword, or null when there is none.
+     */
+    public static split(source: string): { pattern: string; predicate: string | null } {
+        let last: RegExpExecArray | null = null;
+        for (const match of source.matchAll(WHERE_CLAUSE)) {
+            last = match as RegExpExecArray;
+        }
+        if (!last) {
+            return { pattern: source, predicate: null };
+        }
+        return { pattern: source.slice(0, last.index), predicate: source.slice(last.index + last[0].length) };
+    }
+
+    /**
+     * Lists the named capture groups of a regex.
+     * @param pattern The regex source.
+     * @returns The group names, in order.
+     */
+    public static groupNames(pattern: string): string[] {
+        return [...pattern.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g)].map(match => match[1]);
+    }
+
+    /**
+     * Parses a `where` clause such as `due <= 2025-03-04 and est > 4`.
+     * Comparisons are `group op value` with <, <=, >, >=, = (or ==) and !=; values are numbers, dates, other
+     * group names or quoted strings. Combine them with `and`/`&&` and `or`/`||`; `and` binds tighter, parentheses group.
+     * @param source The clause, with templates already resolved.
+     * @param groups The named groups of the regex; comparisons may only reference these.
+     * @returns The parsed predicate tree.
+     * @throws Error describing the first problem and its position.
+     */
+    public static parse(source: string, groups: string[]): FilterPredicateNode {
+        const tokens = this.tokenize(source);
+        if (tokens.length === 0) {
+            throw new Error('Condition after "where" is empty');
+        }
+
+        let index = 0;
+        const peek = (): Token | undefined => tokens[index];
+        const fail = (message: string, token?: Token): never => {
+            const position = token ? token.position : source.length;
+            throw new Error(`${message} at position ${position + 1} of the where clause`);
+        };
+
+        const parseOr = (): FilterPredicateNode => {
+            let left = parseAnd();
+            while (peek()?.kind === 'or') {
+                index++;
+                left = { type: 'or', left, right: parseAnd() };
+            }
+            return left;
+        };
+
+        const parseAnd = (): FilterPredicateNode => {
+            let left = parseComparison();
+            while (peek()?.kind === 'and') {
+                index++;
+                left = { type: 'and', left, right: parseComparison() };
+            }
+            return left;
+        };
+
+        const parseComparison = (): FilterPredicateNode => {
+            const token = peek();
+            if (!token) {
+                return fail('Unexpected end of condition');
+            }
+            if (token.kind === 'lparen') {
+                index++;
+                const inner = parseOr();
+                if (peek()?.kind !== 'rparen') {
+                    return fail('Expected ")"', peek());
+                }
+                index++;
+                return inner;
+            }
+            if (token.kind !== 'word' || token.quoted) {
+                return fail('Expected a group name', token);
+            }
+            if (!groups.includes(token.value)) {
+                return fail(`Unknown group "${token.value}"`, token);
+            }
+            index++;
+
+            const operatorToken = peek();
+            if (operatorToken?.kind !== 'operator') {
+                return fail('Expected a comparison operator', operatorToken);
+            }
+            index++;
+
+            const valueToken = peek();
+            if (valueToken?.kind !== 'word') {
+                return fail('Expected a value', valueToken);
+            }
+            index++;
+            const operand: PredicateOperand = !valueToken.quoted && groups.includes(valueToken.value)
+                ? { kind: 'group', name: valueToken.value }
+                : { kind: 'literal', value: valueToken.value };
+            return { type: 'compare', group: token.value, operator: operatorToken.operator, operand };
+        };
+
+        const tree = parseOr();
+        if (index < tokens.length) {
+            fail('Unexpected token', tokens[index]);
+        }
+        return tree;
+    }
+
+    /**
+     * Evaluates a predicate against the named groups of one regex match.
+     * A comparison involving a group that did not participate in the match is false.
+     * @param node The predicate tree returned by `parse`.
+     * @param groups The `groups` of the match.
+     * @returns Whether the match satisfies the predicate.
+     */
+    public static evaluate(node: FilterPredicateNode, groups: { [name: string]: string | undefined }): boolean {
+        switch (node.type) {
+            case 'and':
+                return this.evaluate(node.left, groups) && this.evaluate(node.right, groups);
+            case 'or':
+                return this.evaluate(node.left, groups) || this.evaluate(node.right, groups);
+            case 'compare': {
+                const left = groups[node.group];
+                const right = node.operand.kind === 'group' ? groups[node.operand.name] : node.operand.value;
+                if (left === undefined || right === undefined) return false;
+                return this.compare(left, right, node.operator);
+            }
+        }
+    }
+
+    /**
+     * Compares two values: numerically when both are numbers, otherwise as text.
+     * ISO dates (YYYY-MM-DD, optionally with a time) therefore compare chronologically.
+     */
+    private static compare(left: string, right: string, operator: ComparisonOperator): boolean {
+        const numeric = NUMBER.test(left) && NUMBER.test(right);
+        const a: number | string = numeric ? parseFloat(left) : left;
+        const b: number | string = numeric ? parseFloat(right) : right;
+        switch (operator) {
+            case '<': return a < b;
+            case '<=': return a <= b;
+            case '>': return a > b;
+            case '>=': return a >= b;
+            case '=': return a === b;
+            case '!=': return a !== b;
+        }
+    }
+
+    /**
+     * Splits a clause into keyword, operator, parenthesis and value tokens.
+     * @param source The clause text.
+     * @returns The tokens in order.
+     */
+    private static tokenize(source: string): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+        while (i < source.length) {
+            const char = source[i];
+            if (/\s/.test(char)) {
+                i++;
+            } else if (char === '(' || char === ')') {
+                tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+                i++;
+            } else if ((char === '&' || char === '|') && source[i + 1] === char) {
+                tokens.push({ kind: char === '&' ? 'and' : 'or', position: i });
+                i += 2;
+            } else if (/[<>=!]/.test(char)) {
+                const match = source.slice(i).match(/^(<=|>=|==|!=|<|>|=)/);
+                if (!match) {
+                    throw new Error(`Unknown operator at position ${i + 1} of the where clause`);
+                }
+                const operator = (match[0] === '==' ? '=' : match[0]) as ComparisonOperator;
+                tokens.push({ kind: 'operator', operator, position: i });
+                i += match[0].length;
+            } else if (char === '"' || char === "'") {
+                const end = source.indexOf(char, i + 1);
+                if (end === -1) {
+                    throw new Error(`Unterminated quote at position ${i + 1} of the where clause`);
+                }
+                tokens.push({ kind: 'word', value: source.slice(i + 1, end), quoted: true, position: i });
+                i = end + 1;
+            } else {
+                const match = source.slice(i).match(/^[^\s()<>=!&|"']+/);
+                const word = match ? match[0] : char;
+                const keyword = word.toLowerCase();
+                if (keyword === 'and' || keyword === 'or') {
+                    tokens.push({ kind: keyword, position: i });
+                } else {
+                    tokens.push({ kind: 'word', value: word, quoted: false, position: i });
+                }
+                i += word.length;
+            }
+        }
+        return tokens;
+    }
+}
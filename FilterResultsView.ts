@@ -0,0 +1,267 @@
+import { ItemView, MarkdownView, Notice, Setting, TFile, WorkspaceLeaf, normalizePath } from 'obsidian';
+import type { RegexLineFilterPlugin } from './main';
+import { ActiveFilter, compileFilterMatcher, formatRegexLiteral, hasFilterParameters, parseRegexInput, regexFlagsFor, toActiveFilter } from './FilterEngine';
+
+export const VIEW_TYPE_FILTER_RESULTS = 'regex-filter-results';
+
+type SearchScope = 'vault' | 'folder' | 'tag';
+
+interface ResultLine {
+    lineNumber: number; // 0-based, like Editor positions
+    text: string; // Text at search time; edits are only written back when the note still has it
+    isContext: boolean;
+}
+
+interface NoteResults {
+    file: TFile;
+    lines: ResultLine[];
+}
+
+// Notes written on Windows may use CRLF; lines are split without the \r and joined with it again
+function lineEndingOf(data: string): string {
+    return data.includes('\r\n') ? '\r\n' : '\n';
+}
+
+// Runs one saved or manual filter across a folder, a tag or the whole vault and lists the visible lines per note.
+export class FilterResultsView extends ItemView {
+    plugin: RegexLineFilterPlugin;
+    searchScope: SearchScope = 'vault';
+    scopeValue = ""; // Folder path or tag, depending on scope
+    savedFilterId = ""; // Empty when using the manual regex
+    manualRegex = "";
+    resultsEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, plugin: RegexLineFilterPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_FILTER_RESULTS;
+    }
+
+    getDisplayText(): string {
+        return 'Filter results';
+    }
+
+    getIcon(): string {
+        return 'filter';
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('regex-filter-results-view');
+
+        let scopeValueSetting: Setting;
+        new Setting(contentEl)
+            .setName('Search in')
+            .addDropdown(dropdown => dropdown
+                .addOption('vault', 'Whole vault')
+                .addOption('folder', 'Folder')
+                .addOption('tag', 'Tag')
+                .setValue(this.searchScope)
+                .onChange(value => {
+                    this.searchScope = value as SearchScope;
+                    scopeValueSetting.settingEl.toggle(this.searchScope !== 'vault');
+                }));
+        scopeValueSetting = new Setting(contentEl)
+            .setName('Folder or tag')
+            .addText(text => text
+                .setPlaceholder('e.g., Projects or #work')
+                .setValue(this.scopeValue)
+                .onChange(value => this.scopeValue = value));
+        scopeValueSetting.settingEl.toggle(this.searchScope !== 'vault');
+
+        let manualRegexSetting: Setting;
+        new Setting(contentEl)
+            .setName('Filter')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Manual regex');
+                for (const item of this.plugin.settings.savedRegexes) {
+                    dropdown.addOption(item.id, item.name?.trim() || formatRegexLiteral(this.plugin.truncateRegex(item.regex), item.flags));
+                }
+                dropdown
+                    .setValue(this.savedFilterId)
+                    .onChange(value => {
+                        this.savedFilterId = value;
+                        manualRegexSetting.settingEl.toggle(value === '');
+                    });
+            });
+        manualRegexSetting = new Setting(contentEl)
+            .setName('Regex')
+            .addText(text => {
+                text.setPlaceholder('e.g., - \\[ \\].*@alice or /todo/i')
+                    .setValue(this.manualRegex)
+                    .onChange(value => this.manualRegex = value);
+                text.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        this.runSearch();
+                    }
+                });
+            });
+        manualRegexSetting.settingEl.toggle(this.savedFilterId === '');
+
+        new Setting(contentEl)
+            .addButton(button => button.setButtonText('Search').setCta().onClick(() => this.runSearch()));
+
+        this.resultsEl = contentEl.createDiv({ cls: 'regex-filter-results' });
+    }
+
+    // Returns the selected filter, or null after telling the user why it cannot be used.
+    // Parameterised saved filters ask for their placeholder values first.
+    async getFilter(): Promise<ActiveFilter | null> {
+        let filter: ActiveFilter;
+        if (this.savedFilterId !== '') {
+            const item = this.plugin.settings.savedRegexes.find(saved => saved.id === this.savedFilterId);
+            if (!item) {
+                new Notice('The selected saved filter no longer exists.');
+                return null;
+            }
+            const regex = hasFilterParameters(item.regex) ? await this.plugin.promptForFilterParameters(item) : item.regex;
+            if (regex === null) return null;
+            filter = { ...toActiveFilter(item), regex };
+        } else {
+            try {
+                const parsed = parseRegexInput(this.manualRegex.trim());
+                filter = { regex: parsed.regex, polarity: 'include', flags: parsed.flags };
+            } catch (e) {
+                new Notice(`Invalid Regex: ${(e as Error).message}`);
+                return null;
+            }
+        }
+
+        if (filter.regex === "") {
+            new Notice('Enter a regex to search for.');
+            return null;
+        }
+        if (filter.polarity === 'exclude') {
+            new Notice('Exclusion filters only hide lines and cannot be searched on their own.');
+            return null;
+        }
+        try {
+            compileFilterMatcher(filter.regex, regexFlagsFor(filter), s => this.plugin.resolveRegexString(s));
+        } catch (e) {
+            new Notice(`Invalid Regex: ${(e as Error).message}`);
+            return null;
+        }
+        return filter;
+    }
+
+    getFilesInScope(): TFile[] {
+        const files = this.app.vault.getMarkdownFiles();
+        const value = this.scopeValue.trim();
+        if (this.searchScope === 'folder') {
+            const folder = normalizePath(value);
+            return files.filter(file => folder === '/' || file.path.startsWith(folder + '/'));
+        }
+        if (this.searchScope === 'tag') {
+            return files.filter(file => this.plugin.fileHasTag(file, value));
+        }
+        return files;
+    }
+
+    async runSearch() {
+        const filter = await this.getFilter();
+        if (!filter) return;
+        if (this.searchScope !== 'vault' && this.scopeValue.trim() === '') {
+            new Notice(`Enter a ${this.searchScope} to search in.`);
+            return;
+        }
+
+        this.resultsEl.empty();
+        this.resultsEl.createDiv({ cls: 'regex-filter-results-summary', text: 'Searching…' });
+
+        const results: NoteResults[] = [];
+        const files = this.getFilesInScope().sort((a, b) => a.path.localeCompare(b.path));
+        for (const file of files) {
+            const data = await this.app.vault.cachedRead(file);
+            const lines = data.split(lineEndingOf(data));
+            const { visibility, lines: info } = this.plugin.computeVisibilityForText(lines, [filter], file);
+            // Only notes with a direct match are listed; children, heading sections and context come along with it
+            if (!info.some(line => line && line.include)) continue;
+            const visibleLines: ResultLine[] = [];
+            lines.forEach((text, index) => {
+                const lineVisibility = visibility[index + 1];
+                if (lineVisibility !== 'hidden' && text.trim() !== '') {
+                    visibleLines.push({ lineNumber: index, text, isContext: lineVisibility === 'context' });
+                }
+            });
+            results.push({ file, lines: visibleLines });
+        }
+        this.renderResults(results);
+    }
+
+    renderResults(results: NoteResults[]) {
+        this.resultsEl.empty();
+        const lineCount = results.reduce((count, note) => count + note.lines.length, 0);
+        this.resultsEl.createDiv({
+            cls: 'regex-filter-results-summary',
+            text: `${lineCount} ${lineCount === 1 ? 'line' : 'lines'} in ${results.length} ${results.length === 1 ? 'note' : 'notes'}`,
+        });
+
+        for (const note of results) {
+            const noteEl = this.resultsEl.createDiv({ cls: 'regex-filter-results-note' });
+            const titleEl = noteEl.createDiv({ cls: 'regex-filter-results-note-title', text: note.file.basename });
+            titleEl.setAttribute('title', note.file.path);
+            titleEl.addEventListener('click', () => this.openLine(note.file, note.lines[0]?.lineNumber ?? 0));
+
+            for (const line of note.lines) {
+                const lineEl = noteEl.createDiv({ cls: 'regex-filter-results-line' });
+                if (line.isContext) lineEl.addClass('regex-filter-context-line');
+
+                const numberEl = lineEl.createSpan({ cls: 'regex-filter-results-line-number', text: String(line.lineNumber + 1) });
+                numberEl.setAttribute('title', 'Open in note');
+                numberEl.addEventListener('click', () => this.openLine(note.file, line.lineNumber));
+
+                // Edits are written back when the input loses focus or Enter is pressed
+                const inputEl = lineEl.createEl('input', { type: 'text', cls: 'regex-filter-results-line-text', value: line.text });
+                inputEl.addEventListener('change', () => this.updateLine(note.file, line, inputEl));
+                inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+                    if (e.key === 'Enter') inputEl.blur();
+                });
+            }
+        }
+    }
+
+    async openLine(file: TFile, lineNumber: number) {
+        const leaf = this.app.workspace.getLeaf(false);
+        await leaf.openFile(file);
+        if (leaf.view instanceof MarkdownView) {
+            const editor = leaf.view.editor;
+            const position = { line: lineNumber, ch: 0 };
+            editor.setCursor(position);
+            editor.scrollIntoView({ from: position, to: position }, true);
+            editor.focus();
+        }
+    }
+
+    async updateLine(file: TFile, line: ResultLine, inputEl: HTMLInputElement) {
+        const newText = inputEl.value;
+        if (newText === line.text) return;
+        try {
+            await this.app.vault.process(file, data => {
+                const lineEnding = lineEndingOf(data);
+                const lines = data.split(lineEnding);
+                if (lines[line.lineNumber] !== line.text) {
+                    throw new Error('the line changed since the search ran');
+                }
+                lines[line.lineNumber] = newText;
+                return lines.join(lineEnding);
+            });
+            line.text = newText;
+        } catch (e) {
+            new Notice(`Could not update ${file.basename}: ${(e as Error).message}. Run the search again.`);
+            inputEl.value = line.text;
+        }
+    }
+}
@@ -0,0 +1,187 @@
+import { EventRef, TFile, WorkspaceLeaf } from 'obsidian';
+import type { FilterState, RegexLineFilterPlugin, SavedRegexItem } from './main';
+import { ActiveFilter, LineVisibility, compileFilterMatcher, normalizeRegexFlags, parseRegexInput, regexFlagsFor } from './FilterEngine';
+
+/** A leaf, or a note (every leaf showing it). When omitted, the active editor is used. */
+export type FilterTarget = WorkspaceLeaf | TFile;
+
+/** A regex string (`/pattern/flags` literals allowed) or a filter object such as a saved filter. */
+export type FilterInput = string | (Pick<ActiveFilter, 'regex'> & Partial<ActiveFilter>);
+
+export interface VisibleLine {
+    line: number; // 0-based, like Editor positions
+    text: string;
+    visibility: Exclude<LineVisibility, 'hidden'>;
+}
+
+export interface FilterStateChangeEvent {
+    leaf: WorkspaceLeaf | null;
+    file: TFile | null;
+    state: FilterState;
+}
+
+/**
+ * Public API for other plugins and scripts, available as `app.plugins.plugins['regex-line-filter'].api`.
+ * Filters are given as unresolved regex strings; template variables are resolved the same way as in the editor.
+ */
+export class RegexFilterApi {
+    private plugin: RegexLineFilterPlugin;
+
+    constructor(plugin: RegexLineFilterPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Lists the active filters of a leaf or note.
+     * @param target The leaf or note; defaults to the active editor. Notes that are not open report the filters they would open with.
+     * @returns Copies of the active filters, in the order they were applied.
+     */
+    public listFilters(target?: FilterTarget): ActiveFilter[] {
+        const state = this.plugin.getFilterState(target);
+        if (state) {
+            return state.activeFilters.map(filter => ({ ...filter }));
+        }
+        if (target instanceof TFile) {
+            return this.plugin.getFiltersForFile(target).map(filter => ({ ...filter }));
+        }
+        return [];
+    }
+
+    /**
+     * Returns the complete filter state of a leaf or note, including options such as combine mode and context lines.
+     * @param target The leaf or note; defaults to the active editor.
+     * @returns The state, or null when the target is not open in an editor.
+     */
+    public getFilterState(target?: FilterTarget): FilterState | null {
+        return this.plugin.getFilterState(target);
+    }
+
+    /**
+     * Lists the saved filters from the plugin settings. Each item can be passed to `applyFilter` or `toggleFilter`.
+     * @returns Copies of the saved filters.
+     */
+    public listSavedFilters(): SavedRegexItem[] {
+        return this.plugin.settings.savedRegexes.map(item => ({ ...item }));
+    }
+
+    /**
+     * Adds a filter to the active filters, unless a filter with the same regex is already active.
+     * @param filter The filter to add.
+     * @param target The leaf or note; defaults to the active editor.
+     * @returns Whether a leaf or note was found.
+     * @throws Error when the regex is invalid.
+     */
+    public async applyFilter(filter: FilterInput, target?: FilterTarget): Promise<boolean> {
+        const activeFilter = this.toActiveFilter(filter);
+        const current = this.listFilters(target);
+        if (current.some(f => f.regex === activeFilter.regex)) {
+            return this.plugin.getFilterTargets(target).length > 0 || target instanceof TFile;
+        }
+        return this.plugin.setActiveFilters(target, [...current, activeFilter]);
+    }
+
+    /**
+     * Adds a filter, or removes it when a filter with the same regex is already active, like the saved filter commands.
+     * @param filter The filter to toggle.
+     * @param target The leaf or note; defaults to the active editor.
+     * @returns Whether the filter is active afterwards.
+     * @throws Error when the regex is invalid.
+     */
+    public async toggleFilter(filter: FilterInput, target?: FilterTarget): Promise<boolean> {
+        const activeFilter = this.toActiveFilter(filter);
+        const current = this.listFilters(target);
+        const isActive = current.some(f => f.regex === activeFilter.regex);
+        await this.plugin.setActiveFilters(target, isActive
+            ? current.filter(f => f.regex !== activeFilter.regex)
+            : [...current, activeFilter]);
+        return !isActive;
+    }
+
+    /**
+     * Replaces all active filters.
+     * @param filters The new filters; an empty list clears the filter.
+     * @param target The leaf or note; defaults to the active editor.
+     * @returns Whether a leaf or note was found.
+     * @throws Error when a regex is invalid.
+     */
+    public async setFilters(filters: FilterInput[], target?: FilterTarget): Promise<boolean> {
+        return this.plugin.setActiveFilters(target, filters.map(filter => this.toActiveFilter(filter)));
+    }
+
+    /**
+     * Removes all active filters.
+     * @param target The leaf or note; defaults to the active editor.
+     * @returns Whether a leaf or note was found.
+     */
+    public async clearFilters(target?: FilterTarget): Promise<boolean> {
+        return this.plugin.setActiveFilters(target, []);
+    }
+
+    /**
+     * Filters arbitrary text with the option defaults from the plugin settings (children, headings, context, skip zones).
+     * @param text The text to filter, e.g. the contents of a note.
+     * @param filters The filters to apply.
+     * @returns The lines that would stay visible.
+     * @throws Error when a regex is invalid.
+     */
+    public computeVisibleLines(text: string, filters: FilterInput[]): VisibleLine[] {
+        const lines = text.split('\n');
+        const map = this.plugin.computeVisibilityForText(lines, filters.map(filter => this.toActiveFilter(filter)));
+        const visibleLines: VisibleLine[] = [];
+        lines.forEach((lineText, index) => {
+            const visibility = map.compiled ? map.visibility[index + 1] : 'match';
+            if (visibility !== 'hidden') {
+                visibleLines.push({ line: index, text: lineText, visibility });
+            }
+        });
+        return visibleLines;
+    }
+
+    /**
+     * Subscribes to filter state changes in any editor, whatever caused them (commands, settings, this API).
+     * Plugins should pass the result to `registerEvent` so the subscription ends when they unload.
+     * @param callback Receives the leaf, its file and the new filter state.
+     * @returns The event reference, for `registerEvent` or `offFilterStateChange`.
+     */
+    public onFilterStateChange(callback: (event: FilterStateChangeEvent) => void): EventRef {
+        return this.plugin.events.on('filter-state-changed', callback);
+    }
+
+    /**
+     * Ends a subscription made with `onFilterStateChange`.
+     * @param ref The event reference returned by `onFilterStateChange`.
+     */
+    public offFilterStateChange(ref: EventRef): void {
+        this.plugin.events.offref(ref);
+    }
+
+    /**
+     * Normalizes and validates filter input.
+     * @param filter A regex string or filter object.
+     * @returns The filter as stored in the editor state.
+     * @throws Error when the regex or its flags are invalid.
+     */
+    private toActiveFilter(filter: FilterInput): ActiveFilter {
+        let activeFilter: ActiveFilter;
+        if (typeof filter === 'string') {
+            const parsed = parseRegexInput(filter);
+            activeFilter = { regex: parsed.regex, polarity: 'include' };
+            if (parsed.flags) activeFilter.flags = parsed.flags;
+        } else {
+            activeFilter = { regex: filter.regex, polarity: filter.polarity === 'exclude' ? 'exclude' : 'include' };
+            const flags = normalizeRegexFlags(filter.flags ?? "");
+            if (flags) activeFilter.flags = flags;
+            if (filter.contextLinesBefore !== undefined) activeFilter.contextLinesBefore = filter.contextLinesBefore;
+            if (filter.contextLinesAfter !== undefined) activeFilter.contextLinesAfter = filter.contextLinesAfter;
+            if (filter.includeChildItems !== undefined) activeFilter.includeChildItems = filter.includeChildItems;
+            if (filter.includeHeadingChildItems !== undefined) activeFilter.includeHeadingChildItems = filter.includeHeadingChildItems;
+            if (filter.hideEmptyLines !== undefined) activeFilter.hideEmptyLines = filter.hideEmptyLines;
+        }
+        try {
+            compileFilterMatcher(activeFilter.regex, regexFlagsFor(activeFilter), s => this.plugin.resolveRegexString(s));
+        } catch (e) {
+            throw new Error(`Invalid regex "${activeFilter.regex}": ${(e as Error).message}`);
+        }
+        return activeFilter;
+    }
+}
@@ -0,0 +1,114 @@
+// Ready-made patterns for Obsidian syntax, offered by the snippet picker of the regex modals.
+// Patterns may contain {{?Name}} placeholders (see findFilterParameters), which are asked for on insertion.
+
+export interface RegexSnippet {
+    id: string;
+    name: string;
+    pattern: string;
+    description?: string;
+}
+
+// Characters Obsidian allows in a tag, including the `/` of nested tags
+const TAG_CHARS = '[\\p{L}\\p{N}_/-]';
+
+export const BUILT_IN_SNIPPETS: RegexSnippet[] = [
+    {
+        id: 'incomplete-task',
+        name: 'Incomplete task',
+        pattern: '^\\s*[-*+] \\[ \\]',
+        description: 'Tasks that are not ticked yet, at any indent',
+    },
+    {
+        id: 'completed-task',
+        name: 'Completed task',
+        pattern: '^\\s*[-*+] \\[[xX]\\]',
+        description: 'Tasks ticked with x or X',
+    },
+    {
+        id: 'any-task',
+        name: 'Any task',
+        pattern: '^\\s*[-*+] \\[.\\]',
+        description: 'Tasks with any status character, e.g. [ ], [x], [/] or [-]',
+    },
+    {
+        id: 'any-tag',
+        name: 'Any tag',
+        pattern: `(?<![\\p{L}\\p{N}_&/#])#${TAG_CHARS}*[\\p{L}_/-]${TAG_CHARS}*`,
+        description: 'Lines with a tag; headings and purely numeric #123 do not count',
+    },
+    {
+        id: 'tag',
+        name: 'Tag',
+        pattern: `(?<![\\p{L}\\p{N}_&/#])#{{?Tag}}(?!${TAG_CHARS})`,
+        description: 'Exactly this tag (without #), not its nested tags',
+    },
+    {
+        id: 'nested-tag',
+        name: 'Tag and its nested tags',
+        pattern: `(?<![\\p{L}\\p{N}_&/#])#{{?Tag}}(/${TAG_CHARS}*)?(?!${TAG_CHARS})`,
+        description: 'The tag (without #) and everything below it, e.g. #project and #project/alpha',
+    },
+    {
+        id: 'link-to-note',
+        name: 'Links to [[X]]',
+        pattern: '\\[\\[{{?Note}}(#[^\\]|]*)?(\\|[^\\]]*)?\\]\\]',
+        description: 'Wikilinks and embeds of a note, including heading links and aliases',
+    },
+    {
+        id: 'block-id',
+        name: 'Block ID',
+        pattern: '(^|\\s)\\^[A-Za-z0-9-]+\\s*$',
+        description: 'Lines ending in a block ID such as ^abc123',
+    },
+    {
+        id: 'any-callout',
+        name: 'Any callout',
+        pattern: '^(>\\s*)+\\[![^\\]]+\\][+-]?',
+        description: 'The first line of a callout, also when nested',
+    },
+    {
+        id: 'callout',
+        name: 'Callout of type',
+        pattern: '^(>\\s*)+\\[!{{?Type}}\\][+-]?',
+        description: 'The first line of a callout of one type, e.g. note or warning',
+    },
+    {
+        id: 'tasks-due-date',
+        name: 'Tasks: due date',
+        pattern: '📅\\uFE0F? *(?<due>\\d{4}-\\d{2}-\\d{2})',
+        description: 'The Tasks plugin due date, captured as "due"',
+    },
+    {
+        id: 'tasks-scheduled-date',
+        name: 'Tasks: scheduled date',
+        pattern: '⏳\\uFE0F? *(?<scheduled>\\d{4}-\\d{2}-\\d{2})',
+        description: 'The Tasks plugin scheduled date, captured as "scheduled"',
+    },
+    {
+        id: 'tasks-start-date',
+        name: 'Tasks: start date',
+        pattern: '🛫\\uFE0F? *(?<start>\\d{4}-\\d{2}-\\d{2})',
+        description: 'The Tasks plugin start date, captured as "start"',
+    },
+    {
+        id: 'tasks-done-date',
+        name: 'Tasks: done date',
+        pattern: '✅\\uFE0F? *(?<done>\\d{4}-\\d{2}-\\d{2})',
+        description: 'The Tasks plugin completion date, captured as "done"',
+    },
+    {
+        id: 'tasks-due-today',
+        name: 'Tasks: due today',
+        pattern: '📅\\uFE0F? *{{today}}',
+        description: 'Needs template variables to be enabled',
+    },
+];
+
+/**
+ * Lists the snippets offered by the picker: the built-in ones followed by the user's own.
+ * @param customSnippets Snippets from the plugin settings.
+ * @returns All snippets, in picker order.
+ */
+export function allSnippets(customSnippets: RegexSnippet[]): RegexSnippet[] {
+    return [...BUILT_IN_SNIPPETS, ...customSnippets];
+}
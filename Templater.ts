@@ -1,17 +1,49 @@
 import { moment } from 'obsidian';
+import { escapeRegExp } from './FilterEngine';
+
+// Offset units for {{today+2w}} style arithmetic. 'm' means months here, not minutes as in moment.
+const OFFSET_UNITS: Record<string, moment.unitOfTime.DurationConstructor> = { d: 'days', w: 'weeks', m: 'months', y: 'years' };
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Longest custom range expanded into an alternation, to keep the regex usable
+const MAX_RANGE_DAYS = 3660;
+
+// Used for note variables without a value, e.g. {{fm:owner}} in a note without an owner, so the filter shows nothing
+const NEVER_MATCHES = '(?!)';
+
+/** The note and editor that non-date variables such as {{title}} or {{selection}} refer to. */
+export interface TemplateContext {
+    title?: string; // Basename of the note
+    folder?: string; // Parent folder path; empty for the vault root
+    frontmatter?: Record<string, unknown>;
+    selection?: string; // Main selection of the editor
+    word?: string; // Word at the cursor
+}
 
 export class Templater {
     /**
-     * Resolves date-based template variables in a string.
-     * @param template The string containing potential date templates.
-     * @returns The string with date templates resolved.
+     * Resolves date and note template variables in a string.
+     * @param template The string containing potential templates.
+     * @param context The note and editor for {{title}}, {{folder}}, {{fm:key}}, {{selection}} and {{word}}.
+     *                Without one, those variables are left untouched.
+     * @returns The string with templates resolved. Note variables are regex-escaped.
      */
-    public static resolve(template: string): string {
+    public static resolve(template: string, context?: TemplateContext): string {
         // General regex to find all {{...}} templates.
         const templateRegex = /\{\{(.*?)\}\}/g;
 
         return template.replace(templateRegex, (match, content) => {
-            const [variable, format] = content.trim().split(':').map((s: string) => s.trim());
+            const contextValue = context ? this.getContextVariable(content.trim(), context) : null;
+            if (contextValue !== null) {
+                return contextValue;
+            }
+
+            const parts = content.trim().split(':').map((s: string) => s.trim());
+            // {{range:start..end:format}} carries its bounds as a second part
+            const isCustomRange = parts[0].toLowerCase() === 'range' && parts.length > 1;
+            const variable = isCustomRange ? `range:${parts[1]}` : parts[0];
+            const format = isCustomRange ? parts[2] : parts[1];
             const momentFormat = format || 'YYYY-MM-DD'; // Default format
 
             try {
@@ -41,9 +73,48 @@ export class Templater {
         });
     }
 
+    /**
+     * Resolves a note or editor variable to a regex-escaped string.
+     * @param variable The variable (e.g., 'title', 'fm:owner').
+     * @param context The note and editor to read from.
+     * @returns The escaped value, NEVER_MATCHES when the value is missing or empty, or null if the variable is not recognized.
+     */
+    private static getContextVariable(variable: string, context: TemplateContext): string | null {
+        const frontmatterKey = variable.match(/^fm:(.+)$/i);
+        if (frontmatterKey) {
+            const value = context.frontmatter?.[frontmatterKey[1].trim()];
+            // List properties match any of their values
+            if (Array.isArray(value)) {
+                const values = value.filter(v => v !== null && v !== undefined && String(v) !== '').map(v => escapeRegExp(String(v)));
+                return values.length > 0 ? `(${values.join('|')})` : NEVER_MATCHES;
+            }
+            return this.escapeValue(value);
+        }
+
+        switch (variable.toLowerCase()) {
+            case 'title':
+                return this.escapeValue(context.title);
+            case 'folder':
+                return this.escapeValue(context.folder);
+            case 'selection':
+                return this.escapeValue(context.selection);
+            case 'word':
+                return this.escapeValue(context.word);
+            default:
+                return null;
+        }
+    }
+
+    private static escapeValue(value: unknown): string {
+        if (value === null || value === undefined || typeof value === 'object' || String(value) === '') {
+            return NEVER_MATCHES;
+        }
+        return escapeRegExp(String(value));
+    }
+
     /**
      * Returns an array of Moment objects for a given date range variable.
-     * @param variable The date range variable (e.g., 'last-week', 'this-month').
+     * @param variable The date range variable (e.g., 'last-week', 'this-month', 'last-14-days', 'range:2025-01-01..2025-01-31').
      * @returns An array of Moment objects, or null if the variable is not a recognized range.
      */
     private static getDatesForRange(variable: string): moment.Moment[] | null {
@@ -53,6 +124,31 @@ export class Templater {
 
         const lowerCaseVariable = variable.toLowerCase();
 
+        // Rolling windows that include today: last-14-days ends today, next-7-days starts today
+        const rolling = lowerCaseVariable.match(/^(last|next)-(\d+)-(day|week|month|year)s?$/);
+        if (rolling) {
+            const amount = parseInt(rolling[2], 10);
+            if (amount === 0) return null;
+            const unit = `${rolling[3]}s` as moment.unitOfTime.DurationConstructor;
+            if (rolling[1] === 'last') {
+                startOf = now.clone().subtract(amount, unit).add(1, 'day');
+                endOf = now.clone();
+            } else {
+                startOf = now.clone();
+                endOf = now.clone().add(amount, unit).subtract(1, 'day');
+            }
+            return this.expandRange(startOf, endOf);
+        }
+
+        // Explicit ranges; each bound is a YYYY-MM-DD date or a single date variable such as today-7d
+        const custom = lowerCaseVariable.match(/^range:(.+?)\.\.(.+)$/);
+        if (custom) {
+            const start = this.getDateFromVariable(custom[1].trim()) ?? this.parseIsoDate(custom[1].trim());
+            const end = this.getDateFromVariable(custom[2].trim()) ?? this.parseIsoDate(custom[2].trim());
+            if (!start || !end) return null;
+            return start.isAfter(end, 'day') ? this.expandRange(end, start) : this.expandRange(start, end);
+        }
+
         switch (lowerCaseVariable) {
             case 'this-week':
                 startOf = now.clone().startOf('isoWeek');
@@ -94,6 +190,18 @@ export class Templater {
                 return null; // Not a recognized range variable
         }
 
+        return this.expandRange(startOf, endOf);
+    }
+
+    /**
+     * Lists every day from start to end, inclusive.
+     * @returns The days, or null when the range is longer than MAX_RANGE_DAYS.
+     */
+    private static expandRange(startOf: moment.Moment, endOf: moment.Moment): moment.Moment[] | null {
+        if (endOf.diff(startOf, 'days') >= MAX_RANGE_DAYS) {
+            console.warn(`Regex Line Filter: Date range longer than ${MAX_RANGE_DAYS} days is not expanded.`);
+            return null;
+        }
         const dates: moment.Moment[] = [];
         let current = startOf.clone();
         while (current.isSameOrBefore(endOf, 'day')) {
@@ -103,14 +211,45 @@ export class Templater {
         return dates;
     }
 
+    private static parseIsoDate(value: string): moment.Moment | null {
+        const date = moment(value, 'YYYY-MM-DD', true);
+        return date.isValid() ? date : null;
+    }
+
     /**
      * Returns a Moment object based on the template variable.
-     * @param variable The date variable (e.g., 'today', 'yesterday').
+     * @param variable The date variable (e.g., 'today', 'yesterday', 'today-3d', 'next-monday').
      * @returns A Moment object or null if the variable is not recognized.
      */
     private static getDateFromVariable(variable: string): moment.Moment | null {
         const now = moment();
-        switch (variable.toLowerCase()) {
+        const lowerCaseVariable = variable.toLowerCase();
+
+        // Offsets such as today-3d or tomorrow+1w; several can be chained, e.g. today+1m-1d
+        const offset = lowerCaseVariable.match(/^([a-z]+)((?:[+-]\d+[dwmy])+)$/);
+        if (offset) {
+            const base = this.getDateFromVariable(offset[1]);
+            if (!base) return null;
+            for (const [, sign, amount, unit] of offset[2].matchAll(/([+-])(\d+)([dwmy])/g)) {
+                base.add((sign === '-' ? -1 : 1) * parseInt(amount, 10), OFFSET_UNITS[unit]);
+            }
+            return base;
+        }
+
+        // Named weekdays: last-friday is the latest one before today, next-monday the first one after today,
+        // this-monday the one in the current (ISO) week
+        const weekday = lowerCaseVariable.match(/^(last|this|next)-([a-z]+)$/);
+        if (weekday && WEEKDAYS.includes(weekday[2])) {
+            const day = WEEKDAYS.indexOf(weekday[2]);
+            if (weekday[1] === 'this') return now.isoWeekday(day === 0 ? 7 : day);
+            const step = weekday[1] === 'next' ? 1 : -1;
+            do {
+                now.add(step, 'days');
+            } while (now.day() !== day);
+            return now;
+        }
+
+        switch (lowerCaseVariable) {
             case 'date':       // Legacy support
             case 'today':
                 return now;
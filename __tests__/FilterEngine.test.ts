@@ -0,0 +1,480 @@
+import {
+    ActiveFilter, ChangedLineRange, LineVisibility, VisibilityOptions,
+    blockVisibility, compileFilterMatcher, computeVisibility, fillFilterParameters, findFilterParameters, findMatchingLine, findMatchSpans, findParentLine, compileActiveFilters, DEFAULT_COMPILE_OPTIONS,
+    normalizeActiveFilters, parseFilterList, parseRegexInput, serializeFilterList, shouldHideLine, textLines, updateVisibilityMap, validateRegex,
+} from '../FilterEngine';
+import { Templater } from '../Templater';
+
+const include = (regex: string, extra: Partial<ActiveFilter> = {}): ActiveFilter => ({ regex, polarity: 'include', ...extra });
+const exclude = (regex: string): ActiveFilter => ({ regex, polarity: 'exclude' });
+
+const FLAT: VisibilityOptions = { includeChildItems: false, includeHeadingChildItems: false };
+
+// Returns the visible lines of `text` for the given filters.
+function visibleLines(text: string[], filters: ActiveFilter[], options: Partial<Parameters<typeof computeVisibility>[2]> = {}): string[] {
+    const map = computeVisibility(text, filters, { ...FLAT, ...options });
+    if (!map.compiled) return text;
+    return text.filter((_, i) => map.visibility[i + 1] !== 'hidden');
+}
+
+describe('parseRegexInput', () => {
+    it('returns plain input unchanged', () => {
+        expect(parseRegexInput('foo/bar')).toEqual({ regex: 'foo/bar', flags: '' });
+    });
+
+    it('splits /pattern/flags literals and drops the implicit u flag', () => {
+        expect(parseRegexInput('/todo/iu')).toEqual({ regex: 'todo', flags: 'i' });
+    });
+
+    it('rejects unsupported flags', () => {
+        expect(() => parseRegexInput('/todo/g')).toThrow('Unsupported regex flag "g"');
+    });
+});
+
+describe('validateRegex', () => {
+    const errorIndex = (source: string) => validateRegex(source, 'u')?.index;
+
+    it('accepts valid patterns', () => {
+        expect(validateRegex('(?<due>\\d+)h? [a-z]{2,}', 'u')).toBeNull();
+    });
+
+    it('locates common syntax errors', () => {
+        expect(errorIndex('a(b')).toBe(1);
+        expect(errorIndex('ab)')).toBe(2);
+        expect(errorIndex('x[a-')).toBe(1);
+        expect(errorIndex('a|*b')).toBe(2);
+        expect(errorIndex('due {today}')).toBe(4);
+        expect(errorIndex('end\\')).toBe(3);
+    });
+
+    it('reports the RegExp message', () => {
+        expect(validateRegex('(', 'u')?.message).toMatch(/Invalid regular expression/);
+    });
+});
+
+describe('normalizeActiveFilters', () => {
+    it('migrates legacy string entries to include filters', () => {
+        expect(normalizeActiveFilters(['a', { regex: 'b', polarity: 'exclude' }, 42])).toEqual([
+            { regex: 'a', polarity: 'include' },
+            { regex: 'b', polarity: 'exclude' },
+        ]);
+    });
+});
+
+describe('parseFilterList / serializeFilterList', () => {
+    it('reads strings, literals and filter objects', () => {
+        expect(parseFilterList(['#todo', '/done/i', { regex: 'x', polarity: 'exclude' }])).toEqual([
+            { regex: '#todo', polarity: 'include' },
+            { regex: 'done', polarity: 'include', flags: 'i' },
+            { regex: 'x', polarity: 'exclude' },
+        ]);
+    });
+
+    it('accepts a single string', () => {
+        expect(parseFilterList('{{today}}')).toEqual([{ regex: '{{today}}', polarity: 'include' }]);
+    });
+
+    it('round-trips filters', () => {
+        const filters: ActiveFilter[] = [
+            include('#todo'),
+            include('todo', { flags: 'i' }),
+            include('/path/'),
+            exclude('done'),
+            include('@alice', { template: '@{{?Person}}' }),
+        ];
+        expect(serializeFilterList(filters)).toEqual(['#todo', '/todo/iu', '//path//u', { regex: 'done', polarity: 'exclude' }, { regex: '@alice', polarity: 'include', template: '@{{?Person}}' }]);
+        expect(parseFilterList(serializeFilterList(filters))).toEqual(filters);
+    });
+});
+
+describe('filter parameters', () => {
+    it('lists placeholders once, with their options', () => {
+        expect(findFilterParameters('@{{?Person}} #{{?Status|todo, doing,done}} cc {{?Person}} {{today}}')).toEqual([
+            { name: 'Person', options: [] },
+            { name: 'Status', options: ['todo', 'doing', 'done'] },
+        ]);
+    });
+
+    it('substitutes escaped values and keeps unknown placeholders', () => {
+        expect(fillFilterParameters('@{{?Person}} {{?Status|a,b}} {{?Other}}', { Person: 'a.b (c)', Status: 'a' }))
+            .toEqual('@a\\.b \\(c\\) a {{?Other}}');
+    });
+});
+
+describe('computeVisibility', () => {
+    it('returns an empty map when no filter is active', () => {
+        const map = computeVisibility(['a', 'b'], [], FLAT);
+        expect(map.compiled).toBeNull();
+        expect(map.visibility).toEqual([]);
+    });
+
+    it('shows only matching lines', () => {
+        expect(visibleLines(['- [ ] one', '- [x] two', '- [ ] three'], [include('\\[ \\]')]))
+            .toEqual(['- [ ] one', '- [ ] three']);
+    });
+
+    it('honours per-filter flags', () => {
+        expect(visibleLines(['TODO', 'todo', 'done'], [include('todo', { flags: 'i' })])).toEqual(['TODO', 'todo']);
+    });
+
+    it('skips invalid patterns instead of throwing', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(visibleLines(['a(', 'b'], [include('('), include('b')])).toEqual(['b']);
+    });
+
+    describe('child items', () => {
+        const text = [
+            '- project',
+            '\t- task',
+            '\t\t- subtask',
+            '- other',
+            '\t- task',
+        ];
+
+        it('includes indented children of a matching parent', () => {
+            expect(visibleLines(text, [include('project')], { includeChildItems: true }))
+                .toEqual(['- project', '\t- task', '\t\t- subtask']);
+        });
+
+        it('leaves children hidden when disabled', () => {
+            expect(visibleLines(text, [include('project')])).toEqual(['- project']);
+        });
+
+        it('hides the children of an excluded parent', () => {
+            expect(visibleLines(text, [include('task|project|other'), exclude('other')], { includeChildItems: true }))
+                .toEqual(['- project', '\t- task', '\t\t- subtask']);
+        });
+    });
+
+    describe('heading sections', () => {
+        const text = [
+            '# Work',
+            'alpha',
+            '## Meetings',
+            'beta',
+            '# Home',
+            'gamma',
+        ];
+
+        it('includes everything up to the next heading of the same or a higher level', () => {
+            expect(visibleLines(text, [include('^# Work')], { includeHeadingChildItems: true }))
+                .toEqual(['# Work', 'alpha', '## Meetings', 'beta']);
+        });
+
+        it('stops a sub-heading section at its parent level', () => {
+            expect(visibleLines(text, [include('Meetings')], { includeHeadingChildItems: true }))
+                .toEqual(['## Meetings', 'beta']);
+        });
+    });
+
+    describe('empty lines', () => {
+        it('hides blank lines only when hideEmptyLines is on', () => {
+            const map = computeVisibility(['match', '', 'other'], [include('match')], FLAT);
+            const hidden = (hideEmptyLines: boolean) => ['match', '', 'other'].map((text, i) => shouldHideLine(map.visibility[i + 1], text, hideEmptyLines));
+            expect(hidden(true)).toEqual([false, true, true]);
+            expect(hidden(false)).toEqual([false, false, true]);
+        });
+
+        it('matches blank lines like any other line', () => {
+            const map = computeVisibility(['a', '', 'b'], [include('^$')], FLAT);
+            expect(map.visibility.slice(1)).toEqual<LineVisibility[]>(['hidden', 'match', 'hidden']);
+        });
+
+        it('keeps blank lines inside a matching heading section', () => {
+            expect(visibleLines(['# A', '', 'x', '# B'], [include('^# A')], { includeHeadingChildItems: true }))
+                .toEqual(['# A', '', 'x']);
+        });
+    });
+
+    describe('skip zones', () => {
+        const text = [
+            '---',
+            'tags: todo',
+            '---',
+            '# Notes',
+            'todo: write',
+            '```',
+            '# todo in code',
+            '```',
+            'a %% todo %% b',
+            '%%',
+            'todo later',
+            '%%',
+        ];
+        const skipAll = { frontmatter: 'skip', codeBlock: 'skip', comment: 'skip' } as const;
+
+        it('matches everywhere by default', () => {
+            expect(visibleLines(text, [include('todo')]))
+                .toEqual(['tags: todo', 'todo: write', '# todo in code', 'a %% todo %% b', 'todo later']);
+        });
+
+        it('ignores matches inside skipped zones and inline comments', () => {
+            expect(visibleLines(text, [include('todo')], { skipZones: skipAll })).toEqual(['todo: write']);
+        });
+
+        it('does not treat headings inside code blocks as sections', () => {
+            expect(visibleLines(text, [include('^# Notes')], { skipZones: skipAll, includeHeadingChildItems: true }))
+                .toEqual(text.slice(3));
+        });
+
+        it('can always hide or always show a zone', () => {
+            expect(visibleLines(text, [include('^# Notes')], {
+                skipZones: { frontmatter: 'show', codeBlock: 'hide', comment: 'skip' },
+                includeHeadingChildItems: true,
+            })).toEqual([...text.slice(0, 5), ...text.slice(8)]);
+        });
+    });
+
+    describe('per-filter option overrides', () => {
+        const text = [
+            '# Meetings',
+            '- [ ] prepare',
+            '\t- agenda',
+            '# Other',
+            '- [ ] call',
+            '\t- number',
+        ];
+
+        it('expands children and sections only for the filters that ask for it', () => {
+            const filters = [include('^# Meetings', { includeHeadingChildItems: true }), include('\\[ \\]')];
+            expect(visibleLines(text, filters)).toEqual(['# Meetings', '- [ ] prepare', '\t- agenda', '- [ ] call']);
+        });
+
+        it('lets a filter switch off an option the editor has on', () => {
+            expect(visibleLines(text, [include('\\[ \\]', { includeChildItems: false })], { includeChildItems: true }))
+                .toEqual(['- [ ] prepare', '- [ ] call']);
+        });
+
+        it('prefers showing more when matching filters disagree', () => {
+            const filters = [include('call', { includeChildItems: false }), include('\\[ \\]', { includeChildItems: true })];
+            expect(visibleLines(text, filters)).toEqual(['- [ ] prepare', '\t- agenda', '- [ ] call', '\t- number']);
+        });
+
+        it('applies hideEmptyLines to the blank lines after each filter\'s matches', () => {
+            const lines = ['a', '', 'x', 'b', '', 'y'];
+            const map = computeVisibility(lines, [include('^a$', { hideEmptyLines: false }), include('^b$')], FLAT);
+            const hidden = lines.map((line, i) => shouldHideLine(map.visibility[i + 1], line, map.hideEmptyLines[i + 1] ?? true));
+            expect(hidden).toEqual([false, false, true, false, true, true]);
+        });
+
+        it('round-trips through the filter list format', () => {
+            const filters = [include('#todo', { includeChildItems: false, hideEmptyLines: true })];
+            expect(serializeFilterList(filters)).toEqual([{ regex: '#todo', polarity: 'include', includeChildItems: false, hideEmptyLines: true }]);
+            expect(parseFilterList(serializeFilterList(filters))).toEqual(filters);
+        });
+    });
+
+    describe('where clauses', () => {
+        const tasks = [
+            '- [ ] a 📅 2025-03-01 est 2h',
+            '- [ ] b 📅 2025-03-04 est 6h',
+            '- [ ] c 📅 2025-03-09 est 10h',
+            '- [ ] d',
+        ];
+        const due = '📅 (?<due>\\d{4}-\\d{2}-\\d{2})';
+
+        it('compares dates captured by a named group', () => {
+            expect(visibleLines(tasks, [include(`${due} where due <= 2025-03-04`)])).toEqual(tasks.slice(0, 2));
+        });
+
+        it('compares numbers numerically', () => {
+            expect(visibleLines(tasks, [include('(?<est>\\d+)h where est > 4')])).toEqual(tasks.slice(1, 3));
+        });
+
+        it('combines comparisons and resolves templates in the clause', () => {
+            const resolve = (s: string) => s.replace('{{today}}', '2025-03-04');
+            expect(visibleLines(tasks, [include(`${due} est (?<est>\\d+)h where due >= {{today}} and est < 10 || est = 2`)], { resolve }))
+                .toEqual(tasks.slice(0, 2));
+        });
+
+        it('accepts a line when any match satisfies the clause', () => {
+            expect(visibleLines(['1 9', '1 2'], [include('(?<n>\\d) where n > 5')])).toEqual(['1 9']);
+        });
+
+        it('treats "where" without a comparison as part of the regex', () => {
+            expect(visibleLines(['where to go', 'go'], [include('where to')])).toEqual(['where to go']);
+        });
+
+        it('only highlights matches that satisfy the clause', () => {
+            const compiled = compileActiveFilters([include('(?<n>\\d) where n > 5')], DEFAULT_COMPILE_OPTIONS);
+            expect(findMatchSpans('1 9', compiled.highlighters, false)).toEqual([{ from: 2, to: 3, colorIndex: 0 }]);
+        });
+
+        it('rejects clauses referencing unknown groups', () => {
+            expect(() => compileFilterMatcher('(?<due>\\d+) where due < 3 and est > 1', 'u', s => s)).toThrow('Unknown group "est"');
+        });
+    });
+
+    describe('template resolution', () => {
+        const resolve = (s: string) => s.replace('{{today}}', '2025-01-31');
+
+        it('matches against the resolved pattern', () => {
+            expect(visibleLines(['due 2025-01-31', 'due 2025-02-01'], [include('due {{today}}')], { resolve }))
+                .toEqual(['due 2025-01-31']);
+        });
+
+        it('filters with patterns resolved by the Templater', () => {
+            jest.useFakeTimers({ now: new Date(2025, 0, 31, 12) });
+            try {
+                const resolve = (s: string) => Templater.resolve(s, { title: 'Log (Jan)', frontmatter: { owner: ['alice', 'bob'] } });
+                const text = ['due 2025-01-31 @alice', 'due 2025-01-30 @bob', 'see Log (Jan)', 'due 2025-01-31 @carol'];
+                expect(visibleLines(text, [include('due {{today}} @{{fm:owner}}')], { resolve })).toEqual(['due 2025-01-31 @alice']);
+                expect(visibleLines(text, [include('due {{last-2-days}} @{{fm:owner}}')], { resolve })).toEqual(text.slice(0, 2));
+                expect(visibleLines(text, [include('{{title}}')], { resolve })).toEqual(['see Log (Jan)']);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('uses the pattern literally when no resolver is given', () => {
+            expect(visibleLines(['due 2025-01-31', 'due {today}'], [include('due \\{today\\}')]))
+                .toEqual(['due {today}']);
+        });
+    });
+
+    describe('combining filters', () => {
+        const text = ['work todo', 'work done', 'home todo'];
+
+        it('matches any filter by default', () => {
+            expect(visibleLines(text, [include('work'), include('todo')])).toEqual(text);
+        });
+
+        it('requires every filter in all mode', () => {
+            expect(visibleLines(text, [include('work'), include('todo')], { combineMode: 'all' })).toEqual(['work todo']);
+        });
+
+        it('evaluates an expression over saved filter names', () => {
+            const names: Record<string, string> = { work: 'Work', done: 'Done' };
+            expect(visibleLines(text, [include('work'), include('done')], {
+                combineExpression: 'work & !done',
+                nameFor: f => names[f.regex],
+            })).toEqual(['work todo']);
+        });
+    });
+
+    describe('context lines', () => {
+        const text = ['one', 'two', 'match', 'four', 'five'];
+
+        it('marks surrounding lines as context', () => {
+            const map = computeVisibility(text, [include('match')], { ...FLAT, contextLinesBefore: 1, contextLinesAfter: 2 });
+            expect(map.visibility.slice(1)).toEqual<LineVisibility[]>(['hidden', 'context', 'match', 'context', 'context']);
+        });
+
+        it('prefers per-filter overrides', () => {
+            const map = computeVisibility(text, [include('match', { contextLinesBefore: 2 })], FLAT);
+            expect(map.visibility.slice(1)).toEqual<LineVisibility[]>(['context', 'context', 'match', 'hidden', 'hidden']);
+        });
+
+        it('never shows excluded lines as context', () => {
+            const map = computeVisibility(text, [include('match'), exclude('two')], { ...FLAT, contextLinesBefore: 2 });
+            expect(map.visibility.slice(1)).toEqual<LineVisibility[]>(['context', 'hidden', 'match', 'hidden', 'hidden']);
+        });
+    });
+});
+
+describe('updateVisibilityMap', () => {
+    const options: VisibilityOptions = { includeChildItems: true, includeHeadingChildItems: false };
+
+    it('produces the same result as a full rebuild after an edit', () => {
+        const before = ['- a', '\t- child', '- b', '- c'];
+        const after = ['- a', '\t- child', '- b match', '\t- new child', '- c'];
+        const filters = [include('^- a|match')];
+
+        const map = computeVisibility(before, filters, options);
+        // Old line 3 became new lines 3-4
+        const changes: ChangedLineRange[] = [{ fromLineA: 3, toLineA: 3, fromLineB: 3, toLineB: 4 }];
+        const updated = updateVisibilityMap(map, textLines(after), changes, options);
+
+        expect(updated.visibility).toEqual(computeVisibility(after, filters, options).visibility);
+        expect(updated.lines[1]).toBe(map.lines[1]); // Untouched lines keep their cached info
+    });
+
+    it('handles deleted lines', () => {
+        const before = ['x', 'match', 'y', 'match'];
+        const after = ['x', 'match'];
+        const filters = [include('match')];
+
+        const map = computeVisibility(before, filters, FLAT);
+        const changes: ChangedLineRange[] = [{ fromLineA: 2, toLineA: 4, fromLineB: 2, toLineB: 2 }];
+        const updated = updateVisibilityMap(map, textLines(after), changes, FLAT);
+
+        expect(updated.visibility).toEqual(computeVisibility(after, filters, FLAT).visibility);
+    });
+});
+
+describe('blockVisibility', () => {
+    const text = ['para match', 'continued', '', 'other', 'more', '', 'near'];
+    const source = textLines(text);
+
+    it('shows a block when any of its lines matches', () => {
+        const map = computeVisibility(text, [include('match')], FLAT);
+        expect(blockVisibility(map, source, 1, 2)).toBe('match');
+        expect(blockVisibility(map, source, 4, 5)).toBe('hidden');
+    });
+
+    it('dims blocks that only hold context lines', () => {
+        const map = computeVisibility(text, [include('near')], { ...FLAT, contextLinesBefore: 2 });
+        expect(blockVisibility(map, source, 4, 5)).toBe('context');
+    });
+
+    it('ignores blank lines', () => {
+        const map = computeVisibility(text, [include('^$')], FLAT);
+        expect(blockVisibility(map, source, 2, 4)).toBe('hidden');
+    });
+
+    it('shows everything without an active filter', () => {
+        const map = computeVisibility(text, [], FLAT);
+        expect(blockVisibility(map, source, 4, 5)).toBe('match');
+    });
+});
+
+describe('findMatchingLine', () => {
+    const text = ['match 1', 'other', '\t- child', 'match 2', 'other'];
+    const map = computeVisibility(text, [include('match')], { ...FLAT, includeChildItems: true });
+
+    it('steps to the next direct match and wraps around', () => {
+        expect(findMatchingLine(map, 1, 1)).toBe(4);
+        expect(findMatchingLine(map, 4, 1)).toBe(1);
+        expect(findMatchingLine(map, 2, -1)).toBe(1);
+        expect(findMatchingLine(map, 1, -1)).toBe(4);
+    });
+
+    it('returns null when no other line matches', () => {
+        const single = computeVisibility(['match', 'other'], [include('match')], FLAT);
+        expect(findMatchingLine(single, 1, 1)).toBeNull();
+    });
+
+    it('skips matches hidden by an exclusion', () => {
+        const excluded = computeVisibility(text, [include('match'), exclude('2')], FLAT);
+        expect(findMatchingLine(excluded, 1, 1)).toBeNull();
+    });
+});
+
+describe('findParentLine', () => {
+    const source = textLines(['# Top', '## Section', '- item', '', '\t- child', '\t\t- grandchild', 'text']);
+
+    it('finds the less indented line above an indented line', () => {
+        expect(findParentLine(source, 6)).toBe(5);
+        expect(findParentLine(source, 5)).toBe(3); // Skips the blank line
+    });
+
+    it('finds the heading of unindented lines and headings', () => {
+        expect(findParentLine(source, 3)).toBe(2);
+        expect(findParentLine(source, 7)).toBe(2);
+        expect(findParentLine(source, 2)).toBe(1);
+    });
+
+    it('returns null at the top level', () => {
+        expect(findParentLine(source, 1)).toBeNull();
+    });
+});
+
+describe('findMatchSpans', () => {
+    it('reports whole matches and named groups', () => {
+        const compiled = compileActiveFilters([include('due (?<date>\\d+)')], DEFAULT_COMPILE_OPTIONS);
+        expect(findMatchSpans('x due 12', compiled.highlighters, true)).toEqual([
+            { from: 2, to: 8, colorIndex: 0 },
+            { from: 6, to: 8, colorIndex: 0, group: 'date' },
+        ]);
+    });
+});
@@ -0,0 +1,73 @@
+import { FilterExpression } from '../FilterExpression';
+
+// Evaluates an expression with the given names matching
+function evaluate(source: string, matching: string[]): boolean {
+    return FilterExpression.evaluate(FilterExpression.parse(source), name => matching.includes(name));
+}
+
+describe('FilterExpression.parse', () => {
+    it('binds NOT tightest, then AND, then OR', () => {
+        expect(FilterExpression.parse('a | b & !c')).toEqual({
+            type: 'or',
+            left: { type: 'ref', name: 'a' },
+            right: { type: 'and', left: { type: 'ref', name: 'b' }, right: { type: 'not', operand: { type: 'ref', name: 'c' } } },
+        });
+    });
+
+    it('groups with parentheses', () => {
+        expect(FilterExpression.parse('(a | b) & c')).toEqual({
+            type: 'and',
+            left: { type: 'or', left: { type: 'ref', name: 'a' }, right: { type: 'ref', name: 'b' } },
+            right: { type: 'ref', name: 'c' },
+        });
+    });
+
+    it('accepts doubled operators and case-insensitive keywords', () => {
+        const expected = FilterExpression.parse('(a | b) & !c');
+        expect(FilterExpression.parse('(a || b) && !c')).toEqual(expected);
+        expect(FilterExpression.parse('(a OR b) AND NOT c')).toEqual(expected);
+        expect(FilterExpression.parse('(a or b) and not c')).toEqual(expected);
+    });
+
+    it('reads quoted names with spaces, operators and keywords', () => {
+        expect(FilterExpression.parse('"open tasks" & !"a|b" & "NOT"')).toEqual({
+            type: 'and',
+            left: {
+                type: 'and',
+                left: { type: 'ref', name: 'open tasks' },
+                right: { type: 'not', operand: { type: 'ref', name: 'a|b' } },
+            },
+            right: { type: 'ref', name: 'NOT' },
+        });
+    });
+
+    it('reports the position of syntax errors', () => {
+        expect(() => FilterExpression.parse('   ')).toThrow('Expression is empty');
+        expect(() => FilterExpression.parse('a & ')).toThrow('Unexpected end of expression at position 5');
+        expect(() => FilterExpression.parse('a & | b')).toThrow('Expected a filter name at position 5');
+        expect(() => FilterExpression.parse('(a | b')).toThrow('Expected ")" at position 7');
+        expect(() => FilterExpression.parse('a b')).toThrow('Unexpected token at position 3');
+        expect(() => FilterExpression.parse('a & "b')).toThrow('Unterminated quote at position 5');
+    });
+});
+
+describe('FilterExpression.evaluate', () => {
+    it('combines matches with AND, OR and NOT', () => {
+        expect(evaluate('work & !done', ['work'])).toBe(true);
+        expect(evaluate('work & !done', ['work', 'done'])).toBe(false);
+        expect(evaluate('work | home & done', ['work'])).toBe(true);
+        expect(evaluate('(work | home) & done', ['work'])).toBe(false);
+        expect(evaluate('NOT NOT work', ['work'])).toBe(true);
+    });
+
+    it('passes quoted names through unchanged', () => {
+        expect(evaluate('"open tasks" AND NOT "waiting on"', ['open tasks'])).toBe(true);
+        expect(evaluate('"open tasks" AND NOT "waiting on"', ['open tasks', 'waiting on'])).toBe(false);
+    });
+});
+
+describe('FilterExpression.references', () => {
+    it('lists each referenced name once, in order of appearance', () => {
+        expect(FilterExpression.references(FilterExpression.parse('b & !(a | "c d") | b'))).toEqual(['b', 'a', 'c d']);
+    });
+});
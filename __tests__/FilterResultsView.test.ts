@@ -0,0 +1,32 @@
+import { TFile, WorkspaceLeaf } from 'obsidian';
+import { FilterResultsView } from '../FilterResultsView';
+import type { RegexLineFilterPlugin } from '../main';
+
+// A results view over a single note whose contents vault.process reads and replaces
+function setUp(data: string) {
+    const note = { data };
+    const file = Object.assign(new TFile(), { path: 'note.md', basename: 'note' });
+    const view = new FilterResultsView(new WorkspaceLeaf(), {} as RegexLineFilterPlugin);
+    Object.assign(view, {
+        app: { vault: { process: async (_file: TFile, update: (data: string) => string) => { note.data = update(note.data); } } },
+    });
+    return { view, file, note };
+}
+
+describe('FilterResultsView.updateLine', () => {
+    it('writes the edited line back, keeping LF line endings', async () => {
+        const { view, file, note } = setUp('- [ ] one\n- [ ] two\n');
+
+        await view.updateLine(file, { lineNumber: 1, text: '- [ ] two', isContext: false }, { value: '- [x] two' } as HTMLInputElement);
+
+        expect(note.data).toBe('- [ ] one\n- [x] two\n');
+    });
+
+    it('keeps CRLF line endings', async () => {
+        const { view, file, note } = setUp('- [ ] one\r\n- [ ] two\r\n');
+
+        await view.updateLine(file, { lineNumber: 0, text: '- [ ] one', isContext: false }, { value: '- [x] one' } as HTMLInputElement);
+
+        expect(note.data).toBe('- [x] one\r\n- [ ] two\r\n');
+    });
+});
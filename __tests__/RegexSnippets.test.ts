@@ -0,0 +1,60 @@
+import { fillFilterParameters } from '../FilterEngine';
+import { BUILT_IN_SNIPPETS } from '../RegexSnippets';
+
+// Compiles a built-in snippet the way a filter would, with the given placeholder values
+function snippet(id: string, values: Record<string, string> = {}): RegExp {
+    const found = BUILT_IN_SNIPPETS.find(s => s.id === id);
+    if (!found) throw new Error(`No snippet ${id}`);
+    return new RegExp(fillFilterParameters(found.pattern, values).replace('{{today}}', '2025-03-04'), 'u');
+}
+
+const matching = (regex: RegExp, lines: string[]) => lines.filter(line => regex.test(line));
+
+describe('built-in snippets', () => {
+    it('have unique ids', () => {
+        const ids = BUILT_IN_SNIPPETS.map(s => s.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('match tasks by status', () => {
+        const lines = ['- [ ] open', '\t* [x] done', '+ [X] DONE', '- [/] doing', '- [] broken', 'text [ ]'];
+        expect(matching(snippet('incomplete-task'), lines)).toEqual(['- [ ] open']);
+        expect(matching(snippet('completed-task'), lines)).toEqual(['\t* [x] done', '+ [X] DONE']);
+        expect(matching(snippet('any-task'), lines)).toEqual(['- [ ] open', '\t* [x] done', '+ [X] DONE', '- [/] doing']);
+    });
+
+    it('match tags but not headings, numbers or anchors', () => {
+        const lines = ['a #work item', '#project/alpha', '# Heading', 'issue #123', 'see [[note#section]]', 'a#b'];
+        expect(matching(snippet('any-tag'), lines)).toEqual(['a #work item', '#project/alpha']);
+    });
+
+    it('tell a tag from its nested tags', () => {
+        const lines = ['#project', '#project/alpha', '#projects', 'x #project.'];
+        expect(matching(snippet('tag', { Tag: 'project' }), lines)).toEqual(['#project', 'x #project.']);
+        expect(matching(snippet('nested-tag', { Tag: 'project' }), lines)).toEqual(['#project', '#project/alpha', 'x #project.']);
+    });
+
+    it('match links to a note with headings, aliases and embeds', () => {
+        const lines = ['[[Alice]]', '![[Alice]]', '[[Alice#Notes|her]]', '[[Alice Smith]]', '[[Bob]]'];
+        expect(matching(snippet('link-to-note', { Note: 'Alice' }), lines)).toEqual(['[[Alice]]', '![[Alice]]', '[[Alice#Notes|her]]']);
+    });
+
+    it('match block ids at the end of a line', () => {
+        expect(matching(snippet('block-id'), ['text ^abc-123', '^id', 'x^2 + y', 'a ^b c'])).toEqual(['text ^abc-123', '^id']);
+    });
+
+    it('match callout headers', () => {
+        const lines = ['> [!note] Title', '> > [!WARNING]- Folded', '> plain quote', '[!note]'];
+        expect(matching(snippet('any-callout'), lines)).toEqual(['> [!note] Title', '> > [!WARNING]- Folded']);
+        expect(matching(snippet('callout', { Type: 'note' }), lines)).toEqual(['> [!note] Title']);
+    });
+
+    it('capture Tasks plugin dates', () => {
+        const line = '- [ ] pay 🛫 2025-03-01 ⏳ 2025-03-02 📅 2025-03-04 ✅ 2025-03-05';
+        expect(snippet('tasks-due-date').exec(line)?.groups?.due).toBe('2025-03-04');
+        expect(snippet('tasks-scheduled-date').exec(line)?.groups?.scheduled).toBe('2025-03-02');
+        expect(snippet('tasks-start-date').exec(line)?.groups?.start).toBe('2025-03-01');
+        expect(snippet('tasks-done-date').exec(line)?.groups?.done).toBe('2025-03-05');
+        expect(matching(snippet('tasks-due-today'), [line, '📅 2025-03-05'])).toEqual([line]);
+    });
+});
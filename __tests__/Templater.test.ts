@@ -0,0 +1,139 @@
+import { Templater } from '../Templater';
+
+// Monday 10 March 2025, so "this", "next" and "last" weekdays are easy to follow
+const NOW = new Date(2025, 2, 10, 12, 0, 0);
+
+beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+// The dates of a resolved range such as (2025-03-08|2025-03-09), in order
+function rangeDates(resolved: string): string[] {
+    expect(resolved).toMatch(/^\(.*\)$/);
+    return resolved.slice(1, -1).split('|');
+}
+
+describe('Templater.resolve', () => {
+    describe('single dates', () => {
+        it('resolves today, yesterday and tomorrow', () => {
+            expect(Templater.resolve('{{today}} {{yesterday}} {{tomorrow}}')).toBe('2025-03-10 2025-03-09 2025-03-11');
+        });
+
+        it('applies a format', () => {
+            expect(Templater.resolve('{{today:DD.MM.YYYY}}')).toBe('10.03.2025');
+        });
+
+        it('applies offsets in days, weeks, months and years', () => {
+            expect(Templater.resolve('{{today-3d}}')).toBe('2025-03-07');
+            expect(Templater.resolve('{{tomorrow+1w}}')).toBe('2025-03-18');
+            expect(Templater.resolve('{{today+1y}}')).toBe('2026-03-10');
+        });
+
+        it('chains offsets', () => {
+            expect(Templater.resolve('{{today+1m-1d}}')).toBe('2025-04-09');
+        });
+
+        it('resolves named weekdays relative to today', () => {
+            expect(Templater.resolve('{{next-monday}}')).toBe('2025-03-17');
+            expect(Templater.resolve('{{last-monday}}')).toBe('2025-03-03');
+            expect(Templater.resolve('{{this-monday}}')).toBe('2025-03-10');
+            expect(Templater.resolve('{{this-sunday}}')).toBe('2025-03-16'); // ISO weeks end on Sunday
+            expect(Templater.resolve('{{last-friday}}')).toBe('2025-03-07');
+        });
+
+        it('leaves unknown variables untouched', () => {
+            expect(Templater.resolve('{{someday}} {{next-funday}}')).toBe('{{someday}} {{next-funday}}');
+        });
+    });
+
+    describe('ranges', () => {
+        it('expands calendar ranges', () => {
+            const dates = rangeDates(Templater.resolve('{{last-week}}'));
+            expect(dates).toHaveLength(7);
+            expect(dates[0]).toBe('2025-03-03');
+            expect(dates[6]).toBe('2025-03-09');
+        });
+
+        it('expands rolling windows that include today', () => {
+            const last = rangeDates(Templater.resolve('{{last-14-days}}'));
+            expect(last).toHaveLength(14);
+            expect(last[0]).toBe('2025-02-25');
+            expect(last[13]).toBe('2025-03-10');
+
+            expect(rangeDates(Templater.resolve('{{next-3-days}}'))).toEqual(['2025-03-10', '2025-03-11', '2025-03-12']);
+        });
+
+        it('expands custom ranges with dates or date variables as bounds', () => {
+            expect(rangeDates(Templater.resolve('{{range:2025-02-27..2025-03-01}}'))).toEqual(['2025-02-27', '2025-02-28', '2025-03-01']);
+            expect(rangeDates(Templater.resolve('{{range:today-2d..today}}'))).toEqual(['2025-03-08', '2025-03-09', '2025-03-10']);
+        });
+
+        it('swaps reversed bounds', () => {
+            expect(rangeDates(Templater.resolve('{{range:2025-03-05..2025-03-03}}'))).toEqual(['2025-03-03', '2025-03-04', '2025-03-05']);
+        });
+
+        it('formats every date of a custom range', () => {
+            expect(Templater.resolve('{{range:2025-03-01..2025-03-02:DD/MM}}')).toBe('(01/03|02/03)');
+        });
+
+        it('does not expand ranges longer than the limit', () => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+            expect(Templater.resolve('{{range:2000-01-01..2025-01-01}}')).toBe('{{range:2000-01-01..2025-01-01}}');
+            expect(Templater.resolve('{{last-20-years}}')).toBe('{{last-20-years}}');
+            expect(console.warn).toHaveBeenCalled();
+        });
+
+        it('leaves custom ranges with invalid bounds untouched', () => {
+            expect(Templater.resolve('{{range:2025-02-30..today}}')).toBe('{{range:2025-02-30..today}}');
+        });
+    });
+
+    describe('note variables', () => {
+        const context = {
+            title: 'Sprint 1.2 (draft)',
+            folder: 'Projects/Alpha',
+            frontmatter: { owner: 'alice', tags: ['work', 'c++', ''], empty: '', meta: { a: 1 } },
+            selection: 'a*b',
+            word: 'TODO',
+        };
+
+        it('resolves and escapes the title, folder, selection and word', () => {
+            expect(Templater.resolve('{{title}}', context)).toBe('Sprint 1\\.2 \\(draft\\)');
+            expect(Templater.resolve('{{folder}}', context)).toBe('Projects/Alpha');
+            expect(Templater.resolve('{{selection}}', context)).toBe('a\\*b');
+            expect(Templater.resolve('{{word}}', context)).toBe('TODO');
+        });
+
+        it('resolves frontmatter values', () => {
+            expect(Templater.resolve('@{{fm:owner}}', context)).toBe('@alice');
+        });
+
+        it('turns list properties into an escaped alternation without empty entries', () => {
+            const resolved = Templater.resolve('#{{fm:tags}}', context);
+            expect(resolved).toBe('#(work|c\\+\\+)');
+            expect(new RegExp(resolved).test('#c++')).toBe(true);
+        });
+
+        it('never matches for missing, empty or non-text values', () => {
+            for (const template of ['{{fm:missing}}', '{{fm:empty}}', '{{fm:meta}}']) {
+                const resolved = Templater.resolve(template, context);
+                expect(resolved).toBe('(?!)');
+                expect(new RegExp(resolved).test('anything')).toBe(false);
+            }
+            expect(Templater.resolve('{{selection}}', { title: 'x' })).toBe('(?!)');
+        });
+
+        it('leaves note variables untouched without a context', () => {
+            expect(Templater.resolve('{{title}} {{fm:owner}}')).toBe('{{title}} {{fm:owner}}');
+        });
+
+        it('resolves date variables next to note variables', () => {
+            expect(Templater.resolve('{{fm:owner}} {{today}}', context)).toBe('alice 2025-03-10');
+        });
+    });
+});
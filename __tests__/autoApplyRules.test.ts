@@ -0,0 +1,97 @@
+import { App, PluginManifest, TFile } from 'obsidian';
+import { ActiveFilter } from '../FilterEngine';
+import { DEFAULT_SETTINGS, RegexLineFilterPlugin } from '../main';
+
+const DONE: ActiveFilter = { regex: 'done', polarity: 'include' };
+
+// A plugin with one rule giving notes under Projects/ a plain and a parameterised saved filter.
+// `frontmatter` stands for the note's indexed frontmatter, which processFrontMatter writes to.
+function setUp(persistedFilters: Record<string, ActiveFilter[]> = {}, useFrontmatterFilters = false) {
+    const file = Object.assign(Object.create(TFile.prototype), { path: 'Projects/plan.md', basename: 'plan', extension: 'md' }) as TFile;
+    const frontmatter: Record<string, unknown> = {};
+    const app = {
+        vault: { getAbstractFileByPath: () => file },
+        metadataCache: { getFileCache: () => ({ frontmatter }) },
+        fileManager: {
+            processFrontMatter: async (_file: TFile, update: (frontmatter: Record<string, unknown>) => void) => update(frontmatter),
+        },
+    };
+    const plugin = new RegexLineFilterPlugin(app as unknown as App, {} as PluginManifest);
+    plugin.settings = {
+        ...DEFAULT_SETTINGS,
+        savedRegexes: [
+            { id: 'todo', regex: 'todo' },
+            { id: 'owner', regex: '@{{?owner}}' },
+            { id: 'done', regex: 'done' },
+        ],
+        autoApplyRules: [{ id: 'rule', type: 'folder', pattern: 'Projects/**', savedRegexIds: ['todo', 'owner'] }],
+        persistedFilters,
+        useFrontmatterFilters,
+    };
+    return { plugin, file, frontmatter };
+}
+
+const regexes = (filters: ActiveFilter[]) => filters.map(filter => filter.regex);
+
+describe('auto-apply rules', () => {
+    it('give a note without filters of its own their filters, skipping parameterised ones', () => {
+        const { plugin, file } = setUp();
+
+        expect(regexes(plugin.getFiltersForFile(file))).toEqual(['todo']);
+    });
+
+    it('are evaluated again, so rule edits reach notes without filters of their own', async () => {
+        const { plugin, file } = setUp();
+        // Saving what the rules already give, e.g. after an option change, does not store anything
+        await plugin.saveFiltersForFile(file.path, plugin.getFiltersForFile(file));
+        expect(plugin.settings.persistedFilters).not.toHaveProperty(file.path);
+
+        plugin.settings.autoApplyRules[0].savedRegexIds.push('done');
+
+        expect(regexes(plugin.getFiltersForFile(file))).toEqual(['todo', 'done']);
+    });
+
+    it('do not replace the filters remembered for a note', () => {
+        const { plugin, file } = setUp({ 'Projects/plan.md': [DONE] });
+
+        expect(regexes(plugin.getFiltersForFile(file))).toEqual(['done']);
+    });
+
+    it('do not fill a note again after its filters were cleared', async () => {
+        const { plugin, file } = setUp();
+
+        await plugin.saveFiltersForFile(file.path, []);
+
+        expect(plugin.settings.persistedFilters[file.path]).toEqual([]);
+        expect(plugin.getFiltersForFile(file)).toEqual([]);
+    });
+
+    it('leave no entry for cleared notes no rule matches', async () => {
+        const { plugin, file } = setUp({ 'Projects/plan.md': [DONE] });
+        plugin.settings.autoApplyRules = [];
+
+        await plugin.saveFiltersForFile(file.path, []);
+
+        expect(plugin.settings.persistedFilters).not.toHaveProperty(file.path);
+    });
+
+    describe('with frontmatter filters enabled', () => {
+        it('remember a cleared note in its frontmatter, not in the plugin data', async () => {
+            const { plugin, file, frontmatter } = setUp({}, true);
+
+            await plugin.saveFiltersForFile(file.path, []);
+
+            expect(frontmatter[DEFAULT_SETTINGS.frontmatterFilterProperty]).toEqual([]);
+            expect(plugin.settings.persistedFilters).not.toHaveProperty(file.path);
+            expect(plugin.getFiltersForFile(file)).toEqual([]);
+        });
+
+        it('do not write what the rules already give to the note', async () => {
+            const { plugin, file, frontmatter } = setUp({}, true);
+
+            await plugin.saveFiltersForFile(file.path, plugin.getFiltersForFile(file));
+
+            expect(frontmatter).not.toHaveProperty(DEFAULT_SETTINGS.frontmatterFilterProperty);
+        });
+    });
+});
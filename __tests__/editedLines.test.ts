@@ -0,0 +1,79 @@
+import { EditorState, TransactionSpec } from '@codemirror/state';
+import { ActiveFilter } from '../FilterEngine';
+import { editedLinesField, filterStateField, refreshFilterEffect, setKeepEditedLinesVisibleEffect, toggleActiveFilterEffect } from '../main';
+
+const TODO: ActiveFilter = { regex: '- \\[ \\]', polarity: 'include' };
+const DOC = '- [ ] one\n- [ ] two\n- [ ] three';
+
+// An editor filtered to open tasks, with edited lines kept visible
+function createState(): EditorState {
+    const defaults = EditorState.create({ extensions: [filterStateField] }).field(filterStateField);
+    return EditorState.create({
+        doc: DOC,
+        extensions: [
+            filterStateField.init(() => ({ ...defaults, activeFilters: [TODO], keepEditedLinesVisible: true })),
+            editedLinesField,
+        ],
+    });
+}
+
+// Ticks the task on the given line
+function tick(state: EditorState, lineNumber: number, spec: TransactionSpec = {}): EditorState {
+    const line = state.doc.line(lineNumber);
+    return state.update({ changes: { from: line.from + 3, to: line.from + 4, insert: 'x' }, ...spec }).state;
+}
+
+const editedLines = (state: EditorState) =>
+    state.field(editedLinesField).map(range => state.sliceDoc(range.from, range.to));
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('editedLinesField', () => {
+    it('keeps lines the user types in or deletes from', () => {
+        let state = tick(createState(), 2, { userEvent: 'input.type' });
+        state = state.update({ changes: { from: state.doc.line(3).to - 1, to: state.doc.line(3).to }, userEvent: 'delete.backward' }).state;
+
+        expect(editedLines(state)).toEqual(['- [x] two', '- [ ] thre']);
+    });
+
+    it('keeps lines changed by undo and redo', () => {
+        expect(editedLines(tick(createState(), 1, { userEvent: 'undo' }))).toEqual(['- [x] one']);
+        expect(editedLines(tick(createState(), 1, { userEvent: 'redo' }))).toEqual(['- [x] one']);
+    });
+
+    it('ignores changes that are not user edits but keeps earlier edits in place', () => {
+        let state = tick(createState(), 3, { userEvent: 'input.type' });
+        state = tick(state, 1);
+        state = state.update({ changes: { from: 0, insert: '# Tasks\n' } }).state;
+
+        expect(editedLines(state)).toEqual(['- [x] three']);
+    });
+
+    it('drops edited lines when the filter is refreshed or changed', () => {
+        const edited = tick(createState(), 1, { userEvent: 'input.type' });
+
+        expect(editedLines(edited.update({ effects: refreshFilterEffect.of() }).state)).toEqual([]);
+        expect(editedLines(edited.update({ effects: toggleActiveFilterEffect.of({ regex: 'two', polarity: 'include' }) }).state)).toEqual([]);
+    });
+
+    it('drops edited lines and stops recording when the option is off', () => {
+        let state = tick(createState(), 1, { userEvent: 'input.type' });
+        state = state.update({ effects: setKeepEditedLinesVisibleEffect.of(false) }).state;
+        expect(editedLines(state)).toEqual([]);
+
+        expect(editedLines(tick(state, 2, { userEvent: 'input.type' }))).toEqual([]);
+    });
+
+    it('records nothing without active filters', () => {
+        let state = createState();
+        state = state.update({ effects: toggleActiveFilterEffect.of(TODO) }).state;
+
+        expect(editedLines(tick(state, 1, { userEvent: 'input.type' }))).toEqual([]);
+    });
+});
@@ -0,0 +1,70 @@
+import { App, PluginManifest } from 'obsidian';
+import { EditorState } from '@codemirror/state';
+import { ActiveFilter } from '../FilterEngine';
+import {
+    DEFAULT_SETTINGS, RegexLineFilterPlugin, filterStateField, setContextLinesEffect, setCopyOnlyFilteredTextEffect, setHighlightMatchesEffect,
+    setIncludeChildItemsEffect, toggleActiveFilterEffect,
+} from '../main';
+
+const INCLUDE_TODO: ActiveFilter = { regex: 'todo', polarity: 'include' };
+const EXCLUDE_TODO: ActiveFilter = { regex: 'todo', polarity: 'exclude' };
+
+const toggle = (state: EditorState, filter: ActiveFilter) => state.update({ effects: toggleActiveFilterEffect.of(filter) }).state;
+const activeFilters = (state: EditorState) => state.field(filterStateField).activeFilters;
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('toggleActiveFilterEffect', () => {
+    it('adds a filter and removes it again', () => {
+        let state = toggle(EditorState.create({ extensions: [filterStateField] }), INCLUDE_TODO);
+        expect(activeFilters(state)).toEqual([INCLUDE_TODO]);
+
+        state = toggle(state, INCLUDE_TODO);
+        expect(activeFilters(state)).toEqual([]);
+    });
+
+    it('tells include and exclude filters with the same regex apart', () => {
+        let state = toggle(EditorState.create({ extensions: [filterStateField] }), INCLUDE_TODO);
+
+        state = toggle(state, EXCLUDE_TODO);
+        expect(activeFilters(state)).toEqual([INCLUDE_TODO, EXCLUDE_TODO]);
+
+        state = toggle(state, INCLUDE_TODO);
+        expect(activeFilters(state)).toEqual([EXCLUDE_TODO]);
+    });
+});
+
+describe('the visibility field', () => {
+    function createState(): { state: EditorState; plugin: RegexLineFilterPlugin } {
+        const plugin = new RegexLineFilterPlugin({} as App, {} as PluginManifest);
+        plugin.settings = { ...DEFAULT_SETTINGS };
+        const state = EditorState.create({
+            doc: '- todo\n  - child\nother',
+            extensions: [filterStateField, plugin.visibilityField],
+        });
+        return { state: toggle(state, INCLUDE_TODO), plugin };
+    }
+
+    it('is kept when only options that do not affect visibility change', () => {
+        const { state, plugin } = createState();
+        const next = state.update({ effects: [setHighlightMatchesEffect.of(false), setCopyOnlyFilteredTextEffect.of(true)] }).state;
+
+        expect(next.field(filterStateField)).not.toBe(state.field(filterStateField));
+        expect(next.field(plugin.visibilityField)).toBe(state.field(plugin.visibilityField));
+    });
+
+    it('is rebuilt when visibility options change', () => {
+        const { state, plugin } = createState();
+        const includeChildItems = !state.field(filterStateField).includeChildItems;
+
+        for (const effect of [setIncludeChildItemsEffect.of(includeChildItems), setContextLinesEffect.of({ before: 1, after: 1 })]) {
+            expect(state.update({ effects: effect }).state.field(plugin.visibilityField)).not.toBe(state.field(plugin.visibilityField));
+        }
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment jsdom
+ */
+import { App, Editor, MarkdownView, PluginManifest, TFile, WorkspaceLeaf } from 'obsidian';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { ActiveFilter, serializeFilterList } from '../FilterEngine';
+import { DEFAULT_SETTINGS, RegexLineFilterPlugin, filterStateField } from '../main';
+import { RegexFilterApi } from '../RegexFilterApi';
+
+const PROPERTY = DEFAULT_SETTINGS.frontmatterFilterProperty;
+const TODO: ActiveFilter = { regex: 'todo', polarity: 'include' };
+const DONE: ActiveFilter = { regex: 'done', polarity: 'include' };
+
+// A note open in the active editor, with frontmatter filters enabled. Writes to the frontmatter are not
+// indexed by the metadata cache until the test says so, like in Obsidian where indexing happens later.
+function setUp(indexedFilters: ActiveFilter[]) {
+    const file = Object.assign(Object.create(TFile.prototype), { path: 'note.md', basename: 'note', extension: 'md' }) as TFile;
+    const leaf = Object.create(WorkspaceLeaf.prototype) as WorkspaceLeaf;
+    const view = Object.assign(Object.create(MarkdownView.prototype), { leaf, file }) as MarkdownView;
+    leaf.view = view;
+
+    const indexed: Record<string, unknown> = indexedFilters.length > 0 ? { [PROPERTY]: serializeFilterList(indexedFilters) } : {};
+    const written: Record<string, unknown> = { ...indexed };
+    const app = {
+        workspace: {
+            getActiveViewOfType: () => view,
+            getActiveFile: () => file,
+            iterateAllLeaves: (callback: (leaf: WorkspaceLeaf) => void) => callback(leaf),
+        },
+        vault: { getAbstractFileByPath: () => file },
+        metadataCache: { getFileCache: () => ({ frontmatter: indexed }) },
+        fileManager: {
+            processFrontMatter: jest.fn(async (_file: TFile, update: (frontmatter: Record<string, unknown>) => void) => update(written)),
+        },
+    };
+
+    const plugin = new RegexLineFilterPlugin(app as unknown as App, {} as PluginManifest);
+    plugin.settings = { ...DEFAULT_SETTINGS, useFrontmatterFilters: true, persistedFilters: {} };
+
+    const cm = new EditorView({
+        state: EditorState.create({
+            doc: 'todo: write tests\nother',
+            extensions: [filterStateField.init(() => ({ ...plugin.createInitialFilterState(), activeFilters: indexedFilters }))],
+        }),
+    });
+    const editor = { cm } as unknown as Editor;
+    Object.assign(view, { editor });
+    return { plugin, view, editor, cm, written };
+}
+
+// A note with filters in its frontmatter that is not open in any editor
+function setUpClosedNote(indexedFilters: ActiveFilter[]) {
+    const file = Object.assign(Object.create(TFile.prototype), { path: 'note.md', basename: 'note', extension: 'md' }) as TFile;
+    const indexed: Record<string, unknown> = { [PROPERTY]: serializeFilterList(indexedFilters) };
+    const written: Record<string, unknown> = { ...indexed };
+    const app = {
+        workspace: {
+            getActiveViewOfType: () => null,
+            getActiveFile: () => null,
+            iterateAllLeaves: () => {},
+        },
+        vault: { getAbstractFileByPath: () => file },
+        metadataCache: { getFileCache: () => ({ frontmatter: indexed }) },
+        fileManager: {
+            processFrontMatter: jest.fn(async (_file: TFile, update: (frontmatter: Record<string, unknown>) => void) => update(written)),
+        },
+    };
+
+    const plugin = new RegexLineFilterPlugin(app as unknown as App, {} as PluginManifest);
+    plugin.settings = { ...DEFAULT_SETTINGS, useFrontmatterFilters: true, persistedFilters: {} };
+    return { api: new RegexFilterApi(plugin), file, written };
+}
+
+// Lets the asynchronous frontmatter write finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('toggling filters with frontmatter filters enabled', () => {
+    it('keeps a filter switched on before the frontmatter is indexed', async () => {
+        const { plugin, view, editor, cm, written } = setUp([]);
+
+        plugin.toggleSpecificSavedRegex(TODO, editor, view);
+        await settle();
+
+        expect(cm.state.field(filterStateField).activeFilters).toEqual([TODO]);
+        expect(written[PROPERTY]).toEqual(serializeFilterList([TODO]));
+    });
+
+    it('keeps filters cleared before the frontmatter is indexed', async () => {
+        const { plugin, view, editor, cm, written } = setUp([TODO]);
+
+        plugin.toggleGlobalFilter(editor, view);
+        await settle();
+
+        expect(cm.state.field(filterStateField).activeFilters).toEqual([]);
+        expect(written[PROPERTY]).toBeUndefined();
+    });
+});
+
+describe('the API on notes that are not open, with frontmatter filters enabled', () => {
+    it('lists the filters stored in the note', () => {
+        const { api, file } = setUpClosedNote([TODO]);
+
+        expect(api.listFilters(file)).toEqual([TODO]);
+    });
+
+    it('keeps the stored filters when toggling another one', async () => {
+        const { api, file, written } = setUpClosedNote([TODO]);
+
+        await expect(api.toggleFilter('done', file)).resolves.toBe(true);
+
+        expect(written[PROPERTY]).toEqual(serializeFilterList([TODO, DONE]));
+    });
+});
@@ -0,0 +1,90 @@
+// Stand-in for the parts of the Obsidian API the tested modules use at runtime. Jest maps 'obsidian' here
+// (see moduleNameMapper in package.json); types still come from the real obsidian package.
+import * as moment from 'moment';
+import { StateField } from '@codemirror/state';
+
+export { moment };
+
+type Callback = (...data: unknown[]) => unknown;
+
+export class Events {
+    private handlers = new Map<string, Callback[]>();
+
+    on(name: string, callback: Callback) {
+        this.handlers.set(name, [...(this.handlers.get(name) ?? []), callback]);
+        return { name, callback };
+    }
+
+    off(name: string, callback: Callback) {
+        this.handlers.set(name, (this.handlers.get(name) ?? []).filter(handler => handler !== callback));
+    }
+
+    trigger(name: string, ...data: unknown[]) {
+        for (const handler of this.handlers.get(name) ?? []) handler(...data);
+    }
+}
+
+export class Plugin {
+    constructor(public app: unknown, public manifest: unknown) {}
+    async loadData(): Promise<unknown> { return null; }
+    async saveData(data: unknown): Promise<void> {}
+    registerEvent(): void {}
+}
+
+export class Modal {
+    constructor(public app: unknown) {}
+    open(): void {}
+    close(): void {}
+}
+
+export class FuzzySuggestModal extends Modal {}
+
+export class PluginSettingTab {
+    constructor(public app: unknown, public plugin: unknown) {}
+}
+
+export class ItemView {
+    constructor(public leaf: unknown) {}
+}
+
+export class WorkspaceLeaf {
+    view: unknown;
+}
+
+export class MarkdownView {
+    leaf: WorkspaceLeaf;
+    file: TFile | null = null;
+    editor: unknown;
+    getMode(): string { return 'source'; }
+}
+
+export class TAbstractFile {
+    path = '';
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = 'md';
+}
+
+export class Notice {
+    constructor(public message: string) {}
+}
+
+export class Setting {}
+export class Menu {}
+
+export function debounce(callback: Callback): Callback {
+    return callback;
+}
+
+export function getAllTags(): string[] {
+    return [];
+}
+
+export function normalizePath(path: string): string {
+    return path;
+}
+
+// The real field carries the editor's MarkdownView; tests only need it to exist
+export const editorInfoField = StateField.define<null>({ create: () => null, update: value => value });
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment jsdom
+ */
+import { App, Editor, MarkdownView, PluginManifest } from 'obsidian';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { ActiveFilter } from '../FilterEngine';
+import {
+    DEFAULT_SETTINGS, FilterPreset, FilterState, RegexLineFilterPlugin, enterPresetEffect, exitPresetEffect, filterStateField,
+    setHighlightMatchesEffect,
+} from '../main';
+
+const TODO: ActiveFilter = { regex: 'todo', polarity: 'include' };
+const WORK: ActiveFilter = { regex: 'work', polarity: 'include' };
+const DONE: ActiveFilter = { regex: 'done', polarity: 'exclude' };
+
+function createState(activeFilters: ActiveFilter[] = [TODO]): EditorState {
+    const defaults = EditorState.create({ extensions: [filterStateField] }).field(filterStateField);
+    return EditorState.create({
+        extensions: [filterStateField.init(() => ({ ...defaults, activeFilters, hideEmptyLines: false, contextLinesBefore: 0 }))],
+    });
+}
+
+const field = (state: EditorState): FilterState => state.field(filterStateField);
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('preset effects', () => {
+    it('restore the filters and overridden options on exit, keeping options changed in between', () => {
+        let state = createState();
+        state = state.update({ effects: enterPresetEffect.of({ id: 'a', filters: [WORK], options: { hideEmptyLines: true } }) }).state;
+        expect(field(state)).toMatchObject({ activeFilters: [WORK], hideEmptyLines: true });
+
+        state = state.update({ effects: setHighlightMatchesEffect.of(!field(state).highlightMatches) }).state;
+        const highlightMatches = field(state).highlightMatches;
+        state = state.update({ effects: exitPresetEffect.of() }).state;
+
+        expect(field(state)).toMatchObject({ activeFilters: [TODO], hideEmptyLines: false, highlightMatches, activePreset: null });
+    });
+
+    it('return to the state before the first preset when switching between presets', () => {
+        let state = createState();
+        state = state.update({ effects: enterPresetEffect.of({ id: 'a', filters: [WORK], options: { hideEmptyLines: true } }) }).state;
+        state = state.update({ effects: enterPresetEffect.of({ id: 'b', filters: [DONE], options: { contextLinesBefore: 2 } }) }).state;
+        expect(field(state)).toMatchObject({ activeFilters: [DONE], hideEmptyLines: true, contextLinesBefore: 2 });
+
+        state = state.update({ effects: exitPresetEffect.of() }).state;
+
+        expect(field(state)).toMatchObject({ activeFilters: [TODO], hideEmptyLines: false, contextLinesBefore: 0, activePreset: null });
+    });
+});
+
+describe('togglePreset', () => {
+    const preset: FilterPreset = { id: 'p', name: 'Work', savedRegexIds: ['work', 'done'], options: {} };
+
+    // An editor showing a note reopened with the preset's filters, so no preset is recorded as active
+    function setUp(activeFilters: ActiveFilter[]) {
+        const view = Object.create(MarkdownView.prototype) as MarkdownView;
+        const app = { workspace: { getActiveViewOfType: () => null } };
+        const plugin = new RegexLineFilterPlugin(app as unknown as App, {} as PluginManifest);
+        plugin.settings = {
+            ...DEFAULT_SETTINGS,
+            savedRegexes: [{ id: 'work', regex: 'work' }, { id: 'done', regex: 'done', polarity: 'exclude' }],
+            presets: [preset],
+        };
+        const cm = new EditorView({ state: createState(activeFilters) });
+        return { plugin, view, editor: { cm } as unknown as Editor, cm };
+    }
+
+    it('switches the preset off when its filters are active without a recorded preset', () => {
+        const { plugin, view, editor, cm } = setUp([WORK, DONE]);
+
+        plugin.togglePreset(preset, editor, view);
+
+        expect(field(cm.state).activeFilters).toEqual([]);
+    });
+
+    it('switches the preset on over other filters', () => {
+        const { plugin, view, editor, cm } = setUp([TODO]);
+
+        plugin.togglePreset(preset, editor, view);
+
+        expect(field(cm.state)).toMatchObject({ activeFilters: [WORK, DONE], activePreset: { id: 'p', previousFilters: [TODO] } });
+    });
+});
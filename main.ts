@@ -1,18 +1,62 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, TFile, Events, TAbstractFile } from 'obsidian';
-import { StateField, StateEffect, RangeSetBuilder, EditorState } from '@codemirror/state';
-import { Templater } from './Templater';
-import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, PluginValue } from '@codemirror/view';
+import { App, Editor, FuzzyMatch, FuzzySuggestModal, MarkdownPostProcessorContext, MarkdownView, Menu, Modal, Notice, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, TFile, Events, TAbstractFile, debounce, editorInfoField, getAllTags } from 'obsidian';
+import { StateField, StateEffect, StateEffectType, EditorState, Range, Transaction } from '@codemirror/state';
+import { Templater, TemplateContext } from './Templater';
+import { FilterExpression, FilterExpressionNode } from './FilterExpression';
+import {
+    ActiveFilter, ChangedLineRange, CompiledFilters, FilterCombineMode, FilterOptionOverrides, FilterParameter, FilterPolarity, MatchHighlighter, SkipZone, SkipZoneMode, SkipZoneSettings, VisibilityMap,
+    blockVisibility, buildVisibilityMap, compileActiveFilters, compileFilterMatcher, EMPTY_VISIBILITY_MAP, escapeRegExp, fillFilterParameters, findFilterParameters, findMatchingLine, findMatchSpans, findParentLine, hasFilterParameters, formatRegexLiteral, normalizeActiveFilters,
+    normalizeRegexFlags, ParsedRegexInput, parseFilterList, parseFilterPattern, parseRegexInput, serializeFilterList, regexFlagsFor, shouldHideLine, textLines, textMatchesFilters, toActiveFilter, updateVisibilityMap, validateRegex,
+} from './FilterEngine';
+import { FilterResultsView, VIEW_TYPE_FILTER_RESULTS } from './FilterResultsView';
+import { RegexFilterApi } from './RegexFilterApi';
+import { RegexSnippet, allSnippets } from './RegexSnippets';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, PluginValue, WidgetType } from '@codemirror/view';
 
 // --- Constants ---
 const REGEX_HISTORY_LIMIT = 5;
+const PREVIEW_LINE_LIMIT = 5; // Matching lines listed in the regex input modal
+const REVEAL_AROUND_CURSOR_LINES = 10; // Hidden lines revealed above and below the cursor per run of the command
 const ACTIVE_FILTER_BODY_CLASS = 'regex-filter-active-body';
 const FADE_TITLE_BODY_CLASS = 'regex-filter-fade-title';
+const READING_VIEW_BODY_CLASS = 'regex-filter-reading-view'; // Set alongside ACTIVE_FILTER_BODY_CLASS when the active note is in Reading view
 
 // --- Settings ---
+export type { ActiveFilter, FilterCombineMode, FilterOptionOverrides, FilterPolarity, LineVisibility, SkipZone, SkipZoneMode, SkipZoneSettings, VisibilityMap } from './FilterEngine';
+
 export interface SavedRegexItem {
   id: string;
   name?: string; // Optional name for the regex
   regex: string;
+  polarity?: FilterPolarity; // Defaults to 'include' when absent
+  flags?: string; // Extra RegExp flags (i, m, s); 'u' is always applied
+  contextLinesBefore?: number; // Overrides RegexLineFilterSettings.contextLinesBefore for this filter
+  contextLinesAfter?: number; // Overrides RegexLineFilterSettings.contextLinesAfter for this filter
+  includeChildItems?: boolean; // Overrides the editor's includeChildItems for lines this filter matches
+  includeHeadingChildItems?: boolean; // Overrides the editor's includeHeadingChildItems for headings this filter matches
+  hideEmptyLines?: boolean; // Overrides the editor's hideEmptyLines for blank lines after this filter's matches
+  recentAnswers?: Record<string, string[]>; // Latest values per {{?placeholder}}, newest first
+}
+
+export type AutoApplyRuleType = 'folder' | 'tag' | 'filename';
+
+// Gives matching notes saved filters when they are opened, unless filters are already remembered for them
+export interface AutoApplyRule {
+  id: string;
+  type: AutoApplyRuleType;
+  pattern: string; // Folder glob (e.g. Projects/**), tag (e.g. #work) or filename regex
+  savedRegexIds: string[]; // SavedRegexItem ids
+}
+
+// Display options a preset can override; options left out keep the editor's current value
+export type PresetOptions = Partial<Pick<FilterState,
+    'hideEmptyLines' | 'includeChildItems' | 'includeHeadingChildItems' | 'combineMode' | 'contextLinesBefore' | 'contextLinesAfter'>>;
+
+// A named bundle of saved filters and display options, toggled with a single command
+export interface FilterPreset {
+  id: string;
+  name: string;
+  savedRegexIds: string[]; // SavedRegexItem ids
+  options: PresetOptions;
 }
 
 export interface RegexLineFilterSettings {
@@ -21,11 +65,24 @@ export interface RegexLineFilterSettings {
    includeHeadingChildItems: boolean;
    enableTemplateVariables: boolean;
    noteTitleTransparency: number;
+   useFrontmatterFilters: boolean; // Read and write each note's filters in a frontmatter property instead of persistedFilters
+   frontmatterFilterProperty: string;
+   autoApplyRules: AutoApplyRule[];
+   presets: FilterPreset[];
+   customSnippets: RegexSnippet[]; // Added to the built-in snippets of the snippet picker
    regexHistory: string[];
    savedRegexes: SavedRegexItem[];
    pinnedRegexes: string[];
-   persistedFilters: { [filePath: string]: string[] };
+   persistedFilters: { [filePath: string]: ActiveFilter[] };
    copyOnlyFilteredText: boolean;
+   defaultCombineMode: FilterCombineMode;
+   highlightMatches: boolean;
+   highlightCaptureGroups: boolean;
+   contextLinesBefore: number;
+   contextLinesAfter: number;
+   collapseHiddenLines: boolean; // Replace runs of hidden lines with a clickable "N lines hidden" placeholder
+   keepEditedLinesVisible: boolean; // Lines edited while a filter is active stay visible until it is re-applied
+   skipZones: SkipZoneSettings; // How frontmatter, code blocks and %% comments take part in matching
    // activeFilters: string[]; // This will no longer be stored in settings
 }
 
@@ -35,53 +92,164 @@ export const DEFAULT_SETTINGS: RegexLineFilterSettings = {
    includeHeadingChildItems: false,
    enableTemplateVariables: false,
    noteTitleTransparency: 0,
+   useFrontmatterFilters: false,
+   frontmatterFilterProperty: 'regex-filter',
+   autoApplyRules: [],
+   presets: [],
+   customSnippets: [],
    regexHistory: [],
    savedRegexes: [],
    pinnedRegexes: [],
    persistedFilters: {},
    copyOnlyFilteredText: true,
+   defaultCombineMode: 'any',
+   highlightMatches: false,
+   highlightCaptureGroups: false,
+   contextLinesBefore: 0,
+   contextLinesAfter: 0,
+   collapseHiddenLines: false,
+   keepEditedLinesVisible: false,
+   skipZones: { frontmatter: 'skip', codeBlock: 'skip', comment: 'skip' },
    // activeFilters: [], // This is now managed per-editor instance
 }
 
-// --- Helper to build combined regex ---
-function buildCombinedRegex(regexStrings: string[]): RegExp | null {
-  if (regexStrings.length === 0) {
-    return null;
-    }
+// --- Helpers for decorations and saved filters ---
+const HIGHLIGHT_COLOR_COUNT = 6; // Matches the .regex-filter-match-N classes in styles.css
+
+// Builds mark decorations for every match (and optionally every named capture group) on a line.
+function buildMatchMarks(text: string, lineFrom: number, highlighters: MatchHighlighter[], includeCaptureGroups: boolean): Range<Decoration>[] {
+  return findMatchSpans(text, highlighters, includeCaptureGroups).map(span => {
+    const mark = span.group === undefined
+      ? Decoration.mark({ class: `regex-filter-match regex-filter-match-${span.colorIndex % HIGHLIGHT_COLOR_COUNT}` })
+      : Decoration.mark({ class: 'regex-filter-match-group', attributes: { 'data-group': span.group } });
+    return mark.range(lineFrom + span.from, lineFrom + span.to);
+  });
+}
 
-  try {
-  // Ensure each part is a valid regex segment and handle empty strings if they somehow get in
-    const validPatterns = regexStrings.filter(s => s.trim() !== "").map(s => `(?:${s})`);
-    if (validPatterns.length === 0) return null;
-    const pattern = validPatterns.join('|');
-    return new RegExp(pattern, 'u');
-    } catch (e) {
-      console.error("Regex Line Filter: Error building combined regex", e, regexStrings);
-      new Notice("Error building combined filter. Some patterns may be invalid. Check console.");
-    return null; // Return null if combined regex is invalid
-    }
+// Converts a transaction's changes to the line ranges expected by updateVisibilityMap.
+function changedLineRanges(tr: Transaction): ChangedLineRange[] {
+  const ranges: ChangedLineRange[] = [];
+  tr.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+    ranges.push({
+      fromLineA: tr.startState.doc.lineAt(fromA).number,
+      toLineA: tr.startState.doc.lineAt(toA).number,
+      fromLineB: tr.state.doc.lineAt(fromB).number,
+      toLineB: tr.state.doc.lineAt(toB).number,
+    });
+  });
+  return ranges;
+}
+
+// Folder globs: `*` and `?` stay within one folder, `**` spans folders. A plain folder path matches everything below it.
+function globToRegExp(glob: string): RegExp {
+  const trimmed = glob.trim().replace(/^\/+/, '');
+  if (!/[*?]/.test(trimmed)) {
+    const folder = trimmed.replace(/\/+$/, '');
+    return new RegExp(`^${escapeRegExp(folder)}/`);
+  }
+  const source = trimmed.split(/(\*\*|\*|\?)/).map(part => {
+    if (part === '**') return '.*';
+    if (part === '*') return '[^/]*';
+    if (part === '?') return '[^/]';
+    return escapeRegExp(part);
+  }).join('');
+  return new RegExp(`^${source}$`);
+}
+
+// Whether an active filter came from the saved filter, including filled-in copies of a parameterised one
+function isFromSavedRegex(filter: ActiveFilter, item: SavedRegexItem): boolean {
+  return (filter.template ?? filter.regex) === item.regex;
+}
+
+// Replaces the selection of a text input, and lets the TextComponent's onChange see the new value
+function insertIntoInput(inputEl: HTMLInputElement, text: string) {
+  const start = inputEl.selectionStart ?? inputEl.value.length;
+  const end = inputEl.selectionEnd ?? start;
+  inputEl.setRangeText(text, start, end, 'end');
+  inputEl.dispatchEvent(new Event('input'));
+  inputEl.focus();
 }
 
 // --- State & Effects ---
+
+export interface FilterTarget {
+   leaf: WorkspaceLeaf;
+   view: MarkdownView;
+   cm: EditorView;
+}
+
+export interface ActivePreset {
+   id: string;
+   previousFilters: ActiveFilter[]; // Restored when the preset is switched off
+   previousOptions: PresetOptions; // Values of the options the preset overrode, restored with the filters
+}
+
 export interface FilterState {
-   unresolvedRegexStrings: string[]; // Stores the original, UNRESOLVED strings
+   activeFilters: ActiveFilter[];
    hideEmptyLines: boolean;
    includeChildItems: boolean;
    includeHeadingChildItems: boolean;
    copyOnlyFilteredText: boolean;
+   combineMode: FilterCombineMode;
+   combineExpression: string; // e.g. `work & !done`; overrides combineMode when non-empty
+   highlightMatches: boolean;
+   highlightCaptureGroups: boolean;
+   contextLinesBefore: number;
+   contextLinesAfter: number;
+   collapseHiddenLines: boolean; // Replace runs of hidden lines with a clickable "N lines hidden" placeholder
+   keepEditedLinesVisible: boolean; // Keep lines edited since the filter was applied visible, see editedLinesField
+   skipZones: SkipZoneSettings; // How frontmatter, code blocks and %% comments take part in matching
+   activePreset: ActivePreset | null;
 }
 
-export const toggleSpecificRegexStringEffect = StateEffect.define<string>();      // Adds/removes a specific regex string
-export const applyManualRegexStringEffect = StateEffect.define<string | null>(); // Sets activeRegexStrings to [newString] or []
-export const clearAllRegexesEffect = StateEffect.define<void>();                 // Clears all active regex strings
-const replaceAllRegexStringsEffect = StateEffect.define<string[]>();      // Replaces all strings, used for loading from persistence
+export const toggleActiveFilterEffect = StateEffect.define<ActiveFilter>();       // Adds/removes a filter, matched by its regex string and polarity
+export const applyManualFilterEffect = StateEffect.define<ActiveFilter | null>(); // Sets activeFilters to [newFilter] or []
+export const clearAllRegexesEffect = StateEffect.define<void>();                 // Clears all active filters
+const replaceAllFiltersEffect = StateEffect.define<ActiveFilter[]>();      // Replaces all filters, used for loading from persistence
 export const setHideEmptyLinesEffect = StateEffect.define<boolean>();
 export const setIncludeChildItemsEffect = StateEffect.define<boolean>();
 export const setIncludeHeadingChildItemsEffect = StateEffect.define<boolean>();
 export const setCopyOnlyFilteredTextEffect = StateEffect.define<boolean>();
+export const setCombineModeEffect = StateEffect.define<FilterCombineMode>();
+export const setCombineExpressionEffect = StateEffect.define<string>();
+export const setHighlightMatchesEffect = StateEffect.define<boolean>();
+export const setHighlightCaptureGroupsEffect = StateEffect.define<boolean>();
+export const setContextLinesEffect = StateEffect.define<{ before: number; after: number }>();
+export const setCollapseHiddenLinesEffect = StateEffect.define<boolean>();
+export const setKeepEditedLinesVisibleEffect = StateEffect.define<boolean>();
+export const setSkipZonesEffect = StateEffect.define<SkipZoneSettings>();
+export const enterPresetEffect = StateEffect.define<{ id: string; filters: ActiveFilter[]; options: PresetOptions }>();
+export const exitPresetEffect = StateEffect.define<void>(); // Restores the state from before the active preset
+export const refreshFilterEffect = StateEffect.define<void>(); // Recomputes visibility, e.g. after template or saved filter settings change
+export const revealLinesEffect = StateEffect.define<RevealedRange>(); // Temporarily shows a collapsed block of hidden lines
+
+const FILTER_STATE_EFFECTS: StateEffectType<unknown>[] = [
+    toggleActiveFilterEffect, applyManualFilterEffect, clearAllRegexesEffect, replaceAllFiltersEffect,
+    setHideEmptyLinesEffect, setIncludeChildItemsEffect, setIncludeHeadingChildItemsEffect, setCopyOnlyFilteredTextEffect,
+    setCombineModeEffect, setCombineExpressionEffect, setHighlightMatchesEffect, setHighlightCaptureGroupsEffect, setContextLinesEffect,
+    setCollapseHiddenLinesEffect, setKeepEditedLinesVisibleEffect, setSkipZonesEffect, enterPresetEffect, exitPresetEffect,
+];
+
+
+
+
+// The current values of the options a preset overrides
+function pickPresetOptions(state: FilterState, options: PresetOptions): PresetOptions {
+    const picked: Record<string, unknown> = {};
+    for (const key of Object.keys(options) as (keyof PresetOptions)[]) {
+        picked[key] = state[key];
+    }
+    return picked as PresetOptions;
+}
 
+// The FilterState fields the visibility map is computed from; options such as highlighting only change decorations
+const VISIBILITY_KEYS: (keyof FilterState)[] = [
+    'activeFilters', 'combineMode', 'combineExpression', 'contextLinesBefore', 'contextLinesAfter', 'skipZones', 'includeChildItems', 'includeHeadingChildItems',
+];
 
-
+function affectsVisibility(previous: FilterState, next: FilterState): boolean {
+    return previous !== next && VISIBILITY_KEYS.some(key => previous[key] !== next[key]);
+}
 
 // --- StateField definition ---
 
@@ -90,36 +258,51 @@ export const filterStateField = StateField.define<FilterState>({
 create(editorState: EditorState): FilterState {
       // Initial state values will be set by .init() in plugin.onload
       return {
-          unresolvedRegexStrings: [],
+          activeFilters: [],
           hideEmptyLines: DEFAULT_SETTINGS.hideEmptyLines, // Fallback, should be overridden by .init
           includeChildItems: DEFAULT_SETTINGS.includeChildItems, // Fallback
           includeHeadingChildItems: DEFAULT_SETTINGS.includeHeadingChildItems, // Fallback
           copyOnlyFilteredText: DEFAULT_SETTINGS.copyOnlyFilteredText, // Fallback
+          combineMode: DEFAULT_SETTINGS.defaultCombineMode, // Fallback
+          combineExpression: "",
+          highlightMatches: DEFAULT_SETTINGS.highlightMatches, // Fallback
+          highlightCaptureGroups: DEFAULT_SETTINGS.highlightCaptureGroups, // Fallback
+          contextLinesBefore: DEFAULT_SETTINGS.contextLinesBefore, // Fallback
+          contextLinesAfter: DEFAULT_SETTINGS.contextLinesAfter, // Fallback
+          collapseHiddenLines: DEFAULT_SETTINGS.collapseHiddenLines, // Fallback
+          keepEditedLinesVisible: DEFAULT_SETTINGS.keepEditedLinesVisible, // Fallback
+          skipZones: DEFAULT_SETTINGS.skipZones, // Fallback
+          activePreset: null,
       };
   },
 
 update(value, tr): FilterState {
+        // Keep the same object when no effect applies, so consumers can detect real changes by identity
+        if (!tr.effects.some(effect => FILTER_STATE_EFFECTS.some(type => effect.is(type)))) {
+            return value;
+        }
         let newState = { ...value };
         for (let effect of tr.effects) {
             console.log("Regex Filter: Processing effect", effect);
-            if (effect.is(toggleSpecificRegexStringEffect)) {
-                const str = effect.value;
-                const index = newState.unresolvedRegexStrings.indexOf(str);
-                let newStrings = [...newState.unresolvedRegexStrings];
+            if (effect.is(toggleActiveFilterEffect)) {
+                const filter = effect.value;
+                const index = newState.activeFilters.findIndex(f => f.regex === filter.regex && f.polarity === filter.polarity);
+                let newFilters = [...newState.activeFilters];
                 if (index > -1) {
-                    newStrings.splice(index, 1);
+                    newFilters.splice(index, 1);
                 } else {
-                    newStrings.push(str);
+                    newFilters.push(filter);
                 }
-                newState.unresolvedRegexStrings = newStrings;
-                console.log("Regex Filter: New unresolved strings (toggle)", newState.unresolvedRegexStrings);
-            } else if (effect.is(applyManualRegexStringEffect)) {
-                newState.unresolvedRegexStrings = effect.value === null ? [] : [effect.value];
-                console.log("Regex Filter: New unresolved strings (manual)", newState.unresolvedRegexStrings);
+                newState.activeFilters = newFilters;
+                console.log("Regex Filter: New active filters (toggle)", newState.activeFilters);
+            } else if (effect.is(applyManualFilterEffect)) {
+                newState.activeFilters = effect.value === null ? [] : [effect.value];
+                console.log("Regex Filter: New active filters (manual)", newState.activeFilters);
             } else if (effect.is(clearAllRegexesEffect)) {
-                newState.unresolvedRegexStrings = [];
-            } else if (effect.is(replaceAllRegexStringsEffect)) {
-                newState.unresolvedRegexStrings = effect.value;
+                newState.activeFilters = [];
+                newState.activePreset = null;
+            } else if (effect.is(replaceAllFiltersEffect)) {
+                newState.activeFilters = effect.value;
             } else if (effect.is(setHideEmptyLinesEffect)) {
                 newState.hideEmptyLines = effect.value;
             } else if (effect.is(setIncludeChildItemsEffect)) {
@@ -128,6 +311,41 @@ update(value, tr): FilterState {
                newState.includeHeadingChildItems = effect.value;
             } else if (effect.is(setCopyOnlyFilteredTextEffect)) {
                 newState.copyOnlyFilteredText = effect.value;
+            } else if (effect.is(setCombineModeEffect)) {
+                newState.combineMode = effect.value;
+            } else if (effect.is(setCombineExpressionEffect)) {
+                newState.combineExpression = effect.value;
+            } else if (effect.is(setHighlightMatchesEffect)) {
+                newState.highlightMatches = effect.value;
+            } else if (effect.is(setHighlightCaptureGroupsEffect)) {
+                newState.highlightCaptureGroups = effect.value;
+            } else if (effect.is(setContextLinesEffect)) {
+                newState.contextLinesBefore = effect.value.before;
+                newState.contextLinesAfter = effect.value.after;
+            } else if (effect.is(setCollapseHiddenLinesEffect)) {
+                newState.collapseHiddenLines = effect.value;
+            } else if (effect.is(setKeepEditedLinesVisibleEffect)) {
+                newState.keepEditedLinesVisible = effect.value;
+            } else if (effect.is(setSkipZonesEffect)) {
+                newState.skipZones = effect.value;
+            } else if (effect.is(enterPresetEffect)) {
+                // Only the overridden options are remembered, so options changed while the preset is on are kept.
+                // Switching straight from one preset to another still returns to the state before the first one.
+                const previousOptions: PresetOptions = { ...pickPresetOptions(newState, effect.value.options), ...newState.activePreset?.previousOptions };
+                newState = {
+                    ...newState,
+                    ...effect.value.options,
+                    activeFilters: effect.value.filters,
+                    activePreset: {
+                        id: effect.value.id,
+                        previousFilters: newState.activePreset ? newState.activePreset.previousFilters : newState.activeFilters,
+                        previousOptions,
+                    },
+                };
+            } else if (effect.is(exitPresetEffect)) {
+                if (newState.activePreset) {
+                    newState = { ...newState, ...newState.activePreset.previousOptions, activeFilters: newState.activePreset.previousFilters, activePreset: null };
+                }
             }
         }
         return newState;
@@ -135,6 +353,103 @@ update(value, tr): FilterState {
 
 });
 
+// --- Revealed blocks ---
+
+export interface RevealedRange {
+   from: number; // Document positions of the revealed lines
+   to: number;
+}
+
+// Blocks revealed from a collapsed placeholder. They are dropped whenever the filter is re-applied.
+export const revealedRangesField = StateField.define<RevealedRange[]>({
+    create(): RevealedRange[] {
+        return [];
+    },
+
+    update(value, tr): RevealedRange[] {
+        const filtersChanged = tr.state.field(filterStateField).activeFilters !== tr.startState.field(filterStateField).activeFilters;
+        if (filtersChanged || tr.effects.some(e => e.is(refreshFilterEffect))) {
+            return value.length === 0 ? value : [];
+        }
+        let ranges = tr.docChanged
+            ? value.map(r => ({ from: tr.changes.mapPos(r.from, -1), to: tr.changes.mapPos(r.to, 1) }))
+            : value;
+        for (const effect of tr.effects) {
+            if (effect.is(revealLinesEffect)) {
+                ranges = [...ranges, effect.value];
+            }
+        }
+        return ranges;
+    },
+});
+
+// User events (see Transaction.isUserEvent) whose changes mark lines as edited
+const USER_EDIT_EVENTS = ['input', 'delete', 'undo', 'redo'];
+
+// Lines edited while a filter is active, so editing a line until it no longer matches does not make it vanish mid-edit.
+// Only typing, deleting, undo and redo count; changes made by other plugins or sync do not keep lines visible.
+// Like revealed blocks they are dropped when the filter is re-applied or refreshed.
+export const editedLinesField = StateField.define<RevealedRange[]>({
+    create(): RevealedRange[] {
+        return [];
+    },
+
+    update(value, tr): RevealedRange[] {
+        const filterState = tr.state.field(filterStateField);
+        const filtersChanged = filterState.activeFilters !== tr.startState.field(filterStateField).activeFilters;
+        if (filtersChanged || !filterState.keepEditedLinesVisible || filterState.activeFilters.length === 0 || tr.effects.some(e => e.is(refreshFilterEffect))) {
+            return value.length === 0 ? value : [];
+        }
+        if (!tr.docChanged) {
+            return value;
+        }
+        const ranges = value.map(r => ({ from: tr.changes.mapPos(r.from, -1), to: tr.changes.mapPos(r.to, 1) }));
+        if (!USER_EDIT_EVENTS.some(event => tr.isUserEvent(event))) {
+            return ranges;
+        }
+        for (const { fromLineB, toLineB } of changedLineRanges(tr)) {
+            const from = tr.state.doc.line(fromLineB).from;
+            const to = tr.state.doc.line(toLineB).to;
+            if (!ranges.some(r => r.from <= from && r.to >= to)) {
+                ranges.push({ from, to });
+            }
+        }
+        return ranges;
+    },
+});
+
+function isRevealed(ranges: RevealedRange[], pos: number): boolean {
+    return ranges.some(r => pos >= r.from && pos <= r.to);
+}
+
+// Placeholder shown instead of a run of hidden lines; clicking it reveals the run.
+class HiddenLinesWidget extends WidgetType {
+    constructor(readonly count: number, readonly from: number, readonly to: number) {
+        super();
+    }
+
+    eq(other: HiddenLinesWidget): boolean {
+        return other.count === this.count && other.from === this.from && other.to === this.to;
+    }
+
+    toDOM(view: EditorView): HTMLElement {
+        const el = createDiv({
+            cls: 'regex-filter-collapsed-lines',
+            text: `… ${this.count} ${this.count === 1 ? 'line' : 'lines'} hidden`,
+            attr: { 'aria-label': 'Click to reveal' },
+        });
+        el.addEventListener('mousedown', (event) => {
+            event.preventDefault(); // Keep the cursor where it is
+            view.dispatch({ effects: revealLinesEffect.of({ from: this.from, to: this.to }) });
+        });
+        return el;
+    }
+
+    ignoreEvent(): boolean {
+        return true;
+    }
+}
+
 
 
 
@@ -147,8 +462,94 @@ lastRegexStr: string | null = null; // For pre-filling manual input modal
 
 cssStyleEl: HTMLElement | null = null;
 events = new Events();
+visibilityField = this.createVisibilityField();
+collapsedLinesField = this.createCollapsedLinesField();
+api = new RegexFilterApi(this); // Public API for other plugins and scripts, see RegexFilterApi.ts
+readingViewMaps = new WeakMap<MarkdownView, VisibilityMap>(); // Visibility each Reading view was last rendered with
+statusBarEl: HTMLElement | null = null;
+
+
+
+private createVisibilityField() {
+    const compile = (state: FilterState, editorState: EditorState) => this.compileFilters(state, this.getTemplateContext(editorState));
+    return StateField.define<VisibilityMap>({
+        create(editorState: EditorState): VisibilityMap {
+            const filterState = editorState.field(filterStateField);
+            return filterState.activeFilters.length === 0 ? EMPTY_VISIBILITY_MAP : buildVisibilityMap(editorState.doc, compile(filterState, editorState), filterState);
+        },
+
+        update(value, tr): VisibilityMap {
+            const filterState = tr.state.field(filterStateField);
+            if (affectsVisibility(tr.startState.field(filterStateField), filterState) || tr.effects.some(e => e.is(refreshFilterEffect))) {
+                return filterState.activeFilters.length === 0 ? EMPTY_VISIBILITY_MAP : buildVisibilityMap(tr.state.doc, compile(filterState, tr.state), filterState);
+            }
+            if (!tr.docChanged || !value.compiled) {
+                return value;
+            }
+            // Only lines touched by the transaction are matched again; children, headings and context are re-derived in one pass
+            return updateVisibilityMap(value, tr.state.doc, changedLineRanges(tr), filterState);
+        },
+    });
+}
+
+// Block decorations must come from a state field, so the collapsed placeholders are computed for the whole document here
+private createCollapsedLinesField() {
+    const visibilityField = this.visibilityField;
+    const build = (state: EditorState): DecorationSet => {
+        const { collapseHiddenLines, hideEmptyLines } = state.field(filterStateField);
+        const { visibility, compiled, hideEmptyLines: emptyLineOverrides } = state.field(visibilityField);
+        if (!collapseHiddenLines || !compiled) {
+            return Decoration.none;
+        }
+        const revealed = state.field(revealedRangesField);
+        const edited = state.field(editedLinesField);
+        const doc = state.doc;
+        const ranges: Range<Decoration>[] = [];
+        let runStart = 0;
+        for (let i = 1; i <= doc.lines + 1; i++) {
+            const line = i <= doc.lines ? doc.line(i) : null;
+            const hidden = line !== null && shouldHideLine(visibility[i], line.text, emptyLineOverrides[i] ?? hideEmptyLines)
+                && !isRevealed(revealed, line.from) && !isRevealed(edited, line.from);
+            if (hidden && runStart === 0) {
+                runStart = i;
+            } else if (!hidden && runStart > 0) {
+                const from = doc.line(runStart).from;
+                const to = doc.line(i - 1).to;
+                ranges.push(Decoration.replace({ block: true, widget: new HiddenLinesWidget(i - runStart, from, to) }).range(from, to));
+                runStart = 0;
+            }
+        }
+        return Decoration.set(ranges);
+    };
+    return StateField.define<DecorationSet>({
+        create: build,
+
+        update(value, tr): DecorationSet {
+            const changed = tr.state.field(visibilityField) !== tr.startState.field(visibilityField)
+                || tr.state.field(filterStateField) !== tr.startState.field(filterStateField)
+                || tr.state.field(revealedRangesField) !== tr.startState.field(revealedRangesField)
+                || tr.state.field(editedLinesField) !== tr.startState.field(editedLinesField);
+            return changed ? build(tr.state) : value.map(tr.changes);
+        },
 
+        provide: field => EditorView.decorations.from(field),
+    });
+}
 
+// Announces every FilterState change, whatever caused it, on the 'filter-state-changed' event
+private createFilterStateListener() {
+    return EditorView.updateListener.of((update: ViewUpdate) => {
+        if (update.state.field(this.visibilityField, false) !== update.startState.field(this.visibilityField, false)) {
+            const leaf = this.findLeafForEditor(update.view);
+            if (leaf && leaf.view instanceof MarkdownView) this.syncReadingView(leaf.view);
+        }
+        const state = update.state.field(filterStateField, false);
+        if (!state || state === update.startState.field(filterStateField, false)) return;
+        const leaf = this.findLeafForEditor(update.view);
+        const file = leaf && leaf.view instanceof MarkdownView ? leaf.view.file : null;
+        this.events.trigger('filter-state-changed', { leaf, file, state });
+    });
+}
 
 private createFilterViewPlugin() {
     const plugin = this;
@@ -165,12 +566,11 @@ private createFilterViewPlugin() {
 
             update(update: ViewUpdate) {
                 const stateChanged = update.state.field(filterStateField) !== update.startState.field(filterStateField);
-                if (update.docChanged || update.viewportChanged || stateChanged) {
-                    // If the state changed, we might need to re-resolve dynamic templates
-                    if (stateChanged && plugin.settings.enableTemplateVariables) {
-                        // This logic is now simplified. Resolution happens on activation.
-                        // This update just rebuilds decorations.
-                    }
+                const mapChanged = update.state.field(plugin.visibilityField) !== update.startState.field(plugin.visibilityField)
+                    || update.state.field(revealedRangesField) !== update.startState.field(revealedRangesField)
+                    || update.state.field(editedLinesField) !== update.startState.field(editedLinesField);
+                // Scrolling only re-decorates the new viewport; the visibility map itself is cached in plugin.visibilityField
+                if (mapChanged || stateChanged || update.viewportChanged) {
                     this.decorations = this.buildDecorations(update.view);
                     if (stateChanged) {
                         // Update copy event listener when copyOnlyFilteredText changes
@@ -188,8 +588,8 @@ private createFilterViewPlugin() {
 
             handleCopy = (event: ClipboardEvent) => {
                 const view = this.view;
-                const { unresolvedRegexStrings, copyOnlyFilteredText } = view.state.field(filterStateField);
-                if (!copyOnlyFilteredText || unresolvedRegexStrings.length === 0) {
+                const { activeFilters, copyOnlyFilteredText } = view.state.field(filterStateField);
+                if (!copyOnlyFilteredText || activeFilters.length === 0) {
                     return; // Use default behavior
                 }
 
@@ -199,67 +599,13 @@ private createFilterViewPlugin() {
                 }
 
                 const doc = view.state.doc;
-                const resolvedRegexStrings = plugin.settings.enableTemplateVariables
-                    ? unresolvedRegexStrings.map(s => Templater.resolve(s))
-                    : unresolvedRegexStrings;
-                const combinedRegex = buildCombinedRegex(resolvedRegexStrings);
-                if (!combinedRegex) {
+                // Visible lines, including context lines (same as buildDecorations)
+                const { visibility, compiled } = view.state.field(plugin.visibilityField);
+                if (!compiled) {
                     return; // No valid regex
                 }
-
-                const isVisibleCopy = new Array(doc.lines + 1).fill(false);
-                const getIndentLevelCopy = (text: string): number => {
-                    const match = text.match(/^(\s*)/);
-                    return match ? match.length : 0;
-                };
-                const getHeadingLevelCopy = (text: string): number => {
-                    const match = text.match(/^(#+)\s/);
-                    return match ? match.length : 0;
-                };
-
-                const isVisible = new Array(doc.lines + 1).fill(false);
-                const getIndentLevel = (text: string): number => {
-                    const match = text.match(/^(\s*)/);
-                    return match ? match[1].length : 0;
-                };
-                const getHeadingLevel = (text: string): number => {
-                    const match = text.match(/^(#+)\s/);
-                    return match ? match[1].length : 0;
-                };
-
-                // Calculate visible lines (similar to buildDecorations)
-                const { includeChildItems, includeHeadingChildItems } = view.state.field(filterStateField);
-                for (let i = 1; i <= doc.lines; i++) {
-                    const line = doc.line(i);
-                    if (combinedRegex.test(line.text)) {
-                        isVisible[i] = true;
-                        if (includeChildItems) {
-                            const parentIndent = getIndentLevel(line.text);
-                            for (let j = i + 1; j <= doc.lines; j++) {
-                                const childLine = doc.line(j);
-                                const childIndent = getIndentLevel(childLine.text);
-                                if (childIndent > parentIndent) {
-                                    isVisible[j] = true;
-                                } else {
-                                    break;
-                                }
-                            }
-                        }
-                        if (includeHeadingChildItems) {
-                            const parentHeadingLevel = getHeadingLevel(line.text);
-                            if (parentHeadingLevel > 0) {
-                                for (let j = i + 1; j <= doc.lines; j++) {
-                                    const childLine = doc.line(j);
-                                    const childHeadingLevel = getHeadingLevel(childLine.text);
-                                    if (childHeadingLevel > 0 && childHeadingLevel <= parentHeadingLevel) {
-                                        break;
-                                    }
-                                    isVisible[j] = true;
-                                }
-                            }
-                        }
-                    }
-                }
+                const revealed = view.state.field(revealedRangesField);
+                const edited = view.state.field(editedLinesField);
 
                 // Filter the selected text to only include visible lines
                 let filteredText = '';
@@ -267,8 +613,8 @@ private createFilterViewPlugin() {
                     const startLine = doc.lineAt(range.from).number;
                     const endLine = doc.lineAt(range.to).number;
                     for (let i = startLine; i <= endLine; i++) {
-                        if (isVisible[i]) {
-                            const line = doc.line(i);
+                        const line = doc.line(i);
+                        if (visibility[i] !== 'hidden' || isRevealed(revealed, line.from) || isRevealed(edited, line.from)) {
                             const lineStart = Math.max(range.from, line.from);
                             const lineEnd = Math.min(range.to, line.to);
                             if (lineStart < lineEnd) {
@@ -287,105 +633,46 @@ private createFilterViewPlugin() {
             }
 
             buildDecorations(view: EditorView): DecorationSet {
-                const builder = new RangeSetBuilder<Decoration>();
-                const { unresolvedRegexStrings, hideEmptyLines, includeChildItems, includeHeadingChildItems, copyOnlyFilteredText } = view.state.field(filterStateField);
-                console.log("Regex Filter: buildDecorations called. Unresolved strings:", unresolvedRegexStrings);
-                const enabled = unresolvedRegexStrings.length > 0;
-
-                if (!enabled) {
-                    console.log("Regex Filter: No filters enabled, finishing decoration build.");
-                    return builder.finish();
-                }
-
-                // Resolve templates and build the combined regex
-                const resolvedRegexStrings = plugin.settings.enableTemplateVariables
-                    ? unresolvedRegexStrings.map(s => Templater.resolve(s))
-                    : unresolvedRegexStrings;
-                console.log("Regex Filter: Resolved strings:", resolvedRegexStrings);
-
-                const combinedRegex = buildCombinedRegex(resolvedRegexStrings);
-                console.log("Regex Filter: Combined Regex:", combinedRegex);
+                const { hideEmptyLines, highlightMatches, highlightCaptureGroups, collapseHiddenLines } = view.state.field(filterStateField);
+                const revealed = view.state.field(revealedRangesField);
+                const edited = view.state.field(editedLinesField);
+                const { visibility, compiled, hideEmptyLines: emptyLineOverrides } = view.state.field(plugin.visibilityField);
 
-                if (!combinedRegex) {
-                    console.log("Regex Filter: Combined regex is null, finishing decoration build.");
-                    return builder.finish();
+                if (!compiled) {
+                    return Decoration.none; // No filter enabled, or no valid regex
                 }
 
                 const doc = view.state.doc;
-                const isVisible = new Array(doc.lines + 1).fill(false);
-                const getIndentLevel = (text: string): number => {
-                    const match = text.match(/^(\s*)/);
-                    return match ? match[1].length : 0;
-                };
-                const getHeadingLevel = (text: string): number => {
-                    const match = text.match(/^(#+)\s/);
-                    return match ? match[1].length : 0;
-                };
-
-                const isVisibleCopy = new Array(doc.lines + 1).fill(false);
-                const getIndentLevelCopy = (text: string): number => {
-                    const match = text.match(/^(\s*)/);
-                    return match ? match[1].length : 0;
-                };
-                const getHeadingLevelCopy = (text: string): number => {
-                    const match = text.match(/^(#+)\s/);
-                    return match ? match[1].length : 0;
-                };
+                const ranges: Range<Decoration>[] = [];
 
                 try {
-                    for (let i = 1; i <= doc.lines; i++) {
-                        const line = doc.line(i);
-                        if (combinedRegex.test(line.text)) {
-                            isVisible[i] = true;
-                            // Handle indented children
-                            if (includeChildItems) {
-                                const parentIndent = getIndentLevel(line.text);
-                                for (let j = i + 1; j <= doc.lines; j++) {
-                                    const childLine = doc.line(j);
-                                    const childIndent = getIndentLevel(childLine.text);
-                                    if (childIndent > parentIndent) {
-                                        isVisible[j] = true;
-                                    } else {
-                                        break;
-                                    }
-                                }
-                            }
-                            // Handle heading children
-                            if (includeHeadingChildItems) {
-                                const parentHeadingLevel = getHeadingLevel(line.text);
-                                if (parentHeadingLevel > 0) {
-                                    for (let j = i + 1; j <= doc.lines; j++) {
-                                        const childLine = doc.line(j);
-                                        const childHeadingLevel = getHeadingLevel(childLine.text);
-                                        if (childHeadingLevel > 0 && childHeadingLevel <= parentHeadingLevel) {
-                                            break;
-                                        }
-                                        isVisible[j] = true;
-                                    }
-                                }
+                    // Only the rendered part of the document needs decorations
+                    for (const { from, to } of view.visibleRanges) {
+                        for (let i = doc.lineAt(from).number; i <= doc.lineAt(to).number; i++) {
+                            const line = doc.line(i);
+                            if (shouldHideLine(visibility[i], line.text, emptyLineOverrides[i] ?? hideEmptyLines)) {
+                                if (isRevealed(revealed, line.from)) {
+                                    ranges.push(Decoration.line({ attributes: { class: 'regex-filter-revealed-line' } }).range(line.from));
+                                } else if (isRevealed(edited, line.from)) {
+                                    ranges.push(Decoration.line({ attributes: { class: 'regex-filter-edited-line', title: 'No longer matching the filter' } }).range(line.from));
+                                } else if (!collapseHiddenLines) {
+                                    ranges.push(Decoration.line({ attributes: { class: 'regex-filter-hidden-line' } }).range(line.from));
+                                } // Collapsed lines are replaced by plugin.collapsedLinesField
+                            } else if (visibility[i] === 'context') {
+                                ranges.push(Decoration.line({ attributes: { class: 'regex-filter-context-line' } }).range(line.from));
                             }
-                        }
-                    }
-
-                    for (let i = 1; i <= doc.lines; i++) {
-                        const line = doc.line(i);
-                        const isEmpty = line.text.trim().length === 0;
-                        let shouldHide = !isVisible[i];
 
-                        if (isEmpty && !hideEmptyLines) {
-                            shouldHide = false;
-                        }
-
-                        if (shouldHide) {
-                            // console.log(`Regex Filter: Hiding line ${i}`); // This can be very noisy
-                            builder.add(line.from, line.from, Decoration.line({ attributes: { class: 'regex-filter-hidden-line' } }));
+                            if (highlightMatches && visibility[i] !== 'hidden') {
+                                ranges.push(...buildMatchMarks(line.text, line.from, compiled.highlighters, highlightCaptureGroups));
+                            }
                         }
                     }
                 } catch (e) {
                     console.error("Regex Line Filter: Error during decoration build:", e);
                 }
 
-                return builder.finish();
+                // Line and mark decorations are mixed, so let CodeMirror sort them
+                return Decoration.set(ranges, true);
             }
         },
         {
@@ -412,39 +699,113 @@ editorCallback: (editor: Editor, view: MarkdownView) => this.toggleGlobalFilter(
 
         });
 
+this.addCommand({
+    id: 'toggle-regex-line-exclusion-filter',
+    name: 'Toggle Regex Line Exclusion Filter (Manual/Clear All)',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.toggleGlobalFilter(editor, view, 'exclude'),
+});
 
+this.addCommand({
+    id: 'toggle-filter-combine-mode',
+    name: 'Toggle how active filters combine (Any/All)',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.toggleCombineMode(editor),
+});
+
+this.addCommand({
+    id: 'set-filter-expression',
+    name: 'Set filter expression (e.g. work & !done)',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.promptForFilterExpression(editor),
+});
+
+
+
+this.addCommand({
+    id: 'refresh-filter',
+    name: 'Refresh filter (hide edited lines that no longer match)',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.refreshFilter(editor),
+});
+
+this.addCommand({
+    id: 'go-to-next-matching-line',
+    name: 'Go to next matching line',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.goToMatchingLine(editor, 1),
+});
+
+this.addCommand({
+    id: 'go-to-previous-matching-line',
+    name: 'Go to previous matching line',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.goToMatchingLine(editor, -1),
+});
+
+this.addCommand({
+    id: 'reveal-hidden-lines-around-cursor',
+    name: 'Reveal hidden lines around cursor',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.revealAroundCursor(editor),
+});
+
+this.addCommand({
+    id: 'reveal-parent-line',
+    name: 'Reveal the parent of this line',
+    editorCallback: (editor: Editor, view: MarkdownView) => this.revealParentLine(editor),
+});
+
+this.addCommand({
+    id: 'open-filter-results-view',
+    name: 'Open vault filter results',
+    callback: () => this.activateResultsView(),
+});
 
 this.registerAllToggleSavedRegexCommands();
+this.settings.presets.forEach(preset => this.registerPresetCommand(preset));
+
+this.registerView(VIEW_TYPE_FILTER_RESULTS, (leaf) => new FilterResultsView(leaf, this));
 
 
 
 this.addSettingTab(new RegexLineFilterSettingTab(this.app, this));
 
+this.statusBarEl = this.addStatusBarItem();
+this.statusBarEl.addClass('regex-filter-status-bar', 'mod-clickable');
+this.statusBarEl.addEventListener('click', (evt: MouseEvent) => this.openStatusBarMenu(evt));
+// Same event as the settings tab, plus edits and state changes from commands that do not announce 'filter-changed'
+this.registerEvent(this.events.on('filter-changed', this.updateStatusBar));
+this.registerEvent(this.events.on('filter-state-changed', this.updateStatusBar));
+this.registerEvent(this.app.workspace.on('editor-change', this.updateStatusBarDebounced));
+
 
 this.registerEditorExtension([
-    filterStateField.init((editorState: EditorState) => ({
-        unresolvedRegexStrings: [],
-        hideEmptyLines: this.settings.hideEmptyLines,
-        includeChildItems: this.settings.includeChildItems,
-        includeHeadingChildItems: this.settings.includeHeadingChildItems,
-        copyOnlyFilteredText: this.settings.copyOnlyFilteredText,
-    })),
+    filterStateField.init((editorState: EditorState) => this.createInitialFilterState()),
+    this.visibilityField,
+    this.createFilterStateListener(),
+    revealedRangesField,
+    editedLinesField,
+    this.collapsedLinesField,
     this.createFilterViewPlugin()
 ]);
+this.registerMarkdownPostProcessor(this.filterRenderedSection);
 
 
 
 this.addCssVariables();
 this.registerEvent(this.app.workspace.on('active-leaf-change', this.handleActiveLeafChange));
 this.registerEvent(this.app.vault.on('rename', this.handleFileRename));
+this.registerEvent(this.app.metadataCache.on('changed', this.handleMetadataChange));
+this.registerEvent(this.app.workspace.on('layout-change', this.handleLayoutChange));
 this.app.workspace.onLayoutReady(() => {
 this.dispatchHideEmptyLinesToEditors(this.settings.hideEmptyLines);
 this.dispatchIncludeChildItemsToEditors(this.settings.includeChildItems);
 this.dispatchIncludeHeadingChildItemsToEditors(this.settings.includeHeadingChildItems);
 this.dispatchCopyOnlyFilteredTextToEditors(this.settings.copyOnlyFilteredText);
-this.updateBodyClassForActiveLeaf();
+this.dispatchCombineModeToEditors(this.settings.defaultCombineMode);
+this.dispatchHighlightOptionsToEditors(this.settings.highlightMatches, this.settings.highlightCaptureGroups);
+this.dispatchContextLinesToEditors(this.settings.contextLinesBefore, this.settings.contextLinesAfter);
+this.dispatchCollapseHiddenLinesToEditors(this.settings.collapseHiddenLines);
+this.dispatchKeepEditedLinesVisibleToEditors(this.settings.keepEditedLinesVisible);
+this.dispatchSkipZonesToEditors(this.settings.skipZones);
+this.loadFiltersForActiveLeaf();
+this.updateStatusBar();
         });
-this.updateBodyClassForActiveLeaf();
+this.loadFiltersForActiveLeaf();
 
         // Register listeners that will trigger a settings tab refresh if it's open
         this.registerEvent(this.app.workspace.on('layout-change', () => this.events.trigger('filter-changed')));
@@ -458,7 +819,26 @@ onunload() {
 
 console.log('Unloading Regex Line Filter plugin');
 this.removeCssVariables();
+// Reading views keep the classes of their last render, so show them unfiltered again
+this.app.workspace.iterateAllLeaves(leaf => {
+    if (leaf.view instanceof MarkdownView && leaf.view.getMode() === 'preview' && this.readingViewMaps.get(leaf.view)?.compiled) {
+        leaf.view.previewMode.rerender(true);
     }
+});
+    }
+
+// Filters using {{fm:key}} follow edits to the note's frontmatter
+private handleMetadataChange = (file: TFile): void => {
+    if (!this.settings.enableTemplateVariables) return;
+    this.app.workspace.iterateAllLeaves(leaf => {
+        if (!(leaf.view instanceof MarkdownView) || leaf.view.file !== file) return;
+        const cm = (leaf.view.editor as { cm?: EditorView }).cm;
+        const state = cm?.state.field(filterStateField, false);
+        if (cm && state && state.activeFilters.some(f => /\{\{\s*fm:/i.test(f.regex))) {
+            cm.dispatch({ effects: refreshFilterEffect.of() });
+        }
+    });
+};
 
 private handleFileRename = async (file: TAbstractFile, oldPath: string): Promise<void> => {
     if (file instanceof TFile) {
@@ -479,13 +859,13 @@ private handleActiveLeafChange = (leaf: WorkspaceLeaf | null): void => {
             const view = leaf.view;
             const file = view.file;
             if (file) {
-                const persistedFilters = this.settings.persistedFilters[file.path] || [];
+                const persistedFilters = this.getFiltersForFile(file);
                 const cm = (view.editor as any).cm as EditorView;
                 if (cm) {
                     const currentState = cm.state.field(filterStateField, false);
                     // Only dispatch if the state is different from what's persisted
-                    if (currentState && JSON.stringify(currentState.unresolvedRegexStrings) !== JSON.stringify(persistedFilters)) {
-                        cm.dispatch({ effects: replaceAllRegexStringsEffect.of(persistedFilters) });
+                    if (currentState && JSON.stringify(currentState.activeFilters) !== JSON.stringify(persistedFilters)) {
+                        cm.dispatch({ effects: replaceAllFiltersEffect.of(persistedFilters) });
                         // The state is now updated. The rest of this function will use the new state.
                     }
                 }
@@ -493,6 +873,19 @@ private handleActiveLeafChange = (leaf: WorkspaceLeaf | null): void => {
         }
 
         // Part 2: Update body classes based on the (potentially new) state
+        this.updateBodyClasses(leaf);
+    }
+
+// Switching between editing and Reading view fires layout-change, so the body classes and rendered sections follow the mode
+private handleLayoutChange = (): void => {
+    this.app.workspace.iterateAllLeaves(leaf => {
+        if (leaf.view instanceof MarkdownView) this.syncReadingView(leaf.view);
+    });
+    const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+    this.updateBodyClasses(activeView ? activeView.leaf : null);
+};
+
+private updateBodyClasses(leaf: WorkspaceLeaf | null): void {
         let filterIsEnabledOnActiveLeaf = false;
         let shouldFadeTitle = false;
 
@@ -500,19 +893,15 @@ private handleActiveLeafChange = (leaf: WorkspaceLeaf | null): void => {
             const cm = (leaf.view.editor as { cm?: EditorView })?.cm;
             if (cm && cm.state && typeof cm.state.field === 'function') {
                 const fieldState = cm.state.field(filterStateField, false);
-                if (fieldState && fieldState.unresolvedRegexStrings.length > 0) {
+                if (fieldState && fieldState.activeFilters.length > 0) {
                     filterIsEnabledOnActiveLeaf = true;
 
                     if (this.settings.noteTitleTransparency > 0) {
                         const activeFile = this.app.workspace.getActiveFile();
                         if (activeFile) {
                             const title = activeFile.basename;
-                            const resolvedRegexStrings = this.settings.enableTemplateVariables
-                                ? fieldState.unresolvedRegexStrings.map(s => Templater.resolve(s))
-                                : fieldState.unresolvedRegexStrings;
-                            
-                            const combinedRegex = buildCombinedRegex(resolvedRegexStrings);
-                            if (combinedRegex && !combinedRegex.test(title)) {
+                            const compiled = this.compileFilters(fieldState, this.getTemplateContext(cm.state));
+                            if ((compiled.include || compiled.exclude) && !textMatchesFilters(title, compiled)) {
                                 shouldFadeTitle = true;
                             }
                         }
@@ -527,6 +916,8 @@ private handleActiveLeafChange = (leaf: WorkspaceLeaf | null): void => {
         } else {
             document.body.classList.remove(ACTIVE_FILTER_BODY_CLASS);
         }
+        const isReadingView = leaf !== null && leaf.view instanceof MarkdownView && leaf.view.getMode() === 'preview';
+        document.body.classList.toggle(READING_VIEW_BODY_CLASS, filterIsEnabledOnActiveLeaf && isReadingView);
 
         // Handle title fade class
         if (shouldFadeTitle) {
@@ -539,12 +930,234 @@ private handleActiveLeafChange = (leaf: WorkspaceLeaf | null): void => {
 
 
 
+// Reading view renders the note section by section from the source, so each section is filtered with the editor's visibility map.
+// Sections are hidden when none of their lines is visible; list items carry their own line and are filtered one by one.
+private filterRenderedSection = (el: HTMLElement, ctx: MarkdownPostProcessorContext): void => {
+    const info = ctx.getSectionInfo(el);
+    if (!info) return; // Embeds and hover previews have no section info
+    const cm = this.findReadingViewEditor(ctx.sourcePath);
+    const map = cm?.state.field(this.visibilityField, false);
+    if (!cm || !map || !map.compiled || info.text.length !== cm.state.doc.length) return;
+
+    const doc = cm.state.doc;
+    const visibility = blockVisibility(map, doc, info.lineStart + 1, info.lineEnd + 1);
+    el.toggleClass('regex-filter-hidden-line', visibility === 'hidden');
+    el.toggleClass('regex-filter-context-line', visibility === 'context');
+    if (visibility === 'hidden') return;
+
+    // data-line is relative to the section; children come before their parents so a parent can stay for a visible child
+    const items = Array.from(el.querySelectorAll<HTMLElement>('li[data-line]')).reverse();
+    for (const item of items) {
+        const line = info.lineStart + Number(item.dataset.line) + 1;
+        const itemVisibility = blockVisibility(map, doc, line, line);
+        const hasVisibleChild = item.querySelector('li:not(.regex-filter-hidden-line)') !== null;
+        item.toggleClass('regex-filter-hidden-line', itemVisibility === 'hidden' && !hasVisibleChild);
+        item.toggleClass('regex-filter-context-line', itemVisibility === 'context');
+    }
+};
+
+// The editor behind the Reading view of a note; the active leaf wins when a note is open in several
+private findReadingViewEditor(sourcePath: string): EditorView | null {
+    const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const views = activeView ? [activeView] : [];
+    this.app.workspace.iterateAllLeaves(leaf => {
+        if (leaf.view instanceof MarkdownView && leaf.view !== activeView) views.push(leaf.view);
+    });
+    const view = views.find(v => v.file?.path === sourcePath && v.getMode() === 'preview');
+    return view ? (view.editor as { cm?: EditorView }).cm ?? null : null;
+}
+
+// Re-renders a Reading view whose filters changed since it was last rendered, including changes made while editing
+syncReadingView(view: MarkdownView): void {
+    if (view.getMode() !== 'preview') return;
+    const cm = (view.editor as { cm?: EditorView }).cm;
+    const map = cm?.state.field(this.visibilityField, false);
+    if (!map) return;
+    const rendered = this.readingViewMaps.get(view);
+    if (rendered === map) return;
+    this.readingViewMaps.set(view, map);
+    if (rendered === undefined && !map.compiled) return; // Rendered without a filter, nothing to undo
+    view.previewMode.rerender(true);
+}
+
+// Whether a line is hidden right now, taking revealed blocks into account
+private isLineHidden(state: EditorState, lineNumber: number): boolean {
+    const { visibility, compiled, hideEmptyLines: emptyLineOverrides } = state.field(this.visibilityField);
+    if (!compiled) return false;
+    const line = state.doc.line(lineNumber);
+    return shouldHideLine(visibility[lineNumber], line.text, emptyLineOverrides[lineNumber] ?? state.field(filterStateField).hideEmptyLines)
+        && !isRevealed(state.field(revealedRangesField), line.from) && !isRevealed(state.field(editedLinesField), line.from);
+}
+
+// Editor of a command that only makes sense while a filter is active; tells the user otherwise
+private getFilteredEditor(editor: Editor): EditorView | null {
+    const cm = (editor as { cm?: EditorView }).cm;
+    if (!cm || !(cm instanceof EditorView)) {
+        new Notice("Filter not available in this view.");
+        return null;
+    }
+    if (!cm.state.field(this.visibilityField).compiled) {
+        new Notice('No regex filter is active.');
+        return null;
+    }
+    return cm;
+}
+
+// Re-applies the filter to the whole note, dropping edited lines that are kept visible and revealed blocks
+refreshFilter(editor: Editor) {
+    const cm = this.getFilteredEditor(editor);
+    if (!cm) return;
+    cm.dispatch({ effects: refreshFilterEffect.of() });
+}
+
+// Moves the cursor to the next or previous directly matching line, scrolling past the hidden lines in between
+goToMatchingLine(editor: Editor, direction: 1 | -1) {
+    const cm = this.getFilteredEditor(editor);
+    if (!cm) return;
+    const current = cm.state.doc.lineAt(cm.state.selection.main.head).number;
+    const target = findMatchingLine(cm.state.field(this.visibilityField), current, direction);
+    if (target === null) {
+        new Notice('No other matching line.');
+        return;
+    }
+    const from = cm.state.doc.line(target).from;
+    cm.dispatch({ selection: { anchor: from }, effects: EditorView.scrollIntoView(from, { y: 'center' }) });
+}
+
+// Reveals up to REVEAL_AROUND_CURSOR_LINES hidden lines directly above and below the cursor line until the filter is applied again.
+// Running it again reveals the next lines, since revealed lines no longer count as hidden.
+revealAroundCursor(editor: Editor) {
+    const cm = this.getFilteredEditor(editor);
+    if (!cm) return;
+    const state = cm.state;
+    const current = state.doc.lineAt(state.selection.main.head).number;
+    let first = current;
+    // Skip visible lines next to the cursor, e.g. other matches, before revealing the hidden run beyond them
+    while (first > 1 && !this.isLineHidden(state, first - 1) && first - 1 >= current - REVEAL_AROUND_CURSOR_LINES) first--;
+    let revealedAbove = 0;
+    while (first > 1 && this.isLineHidden(state, first - 1) && revealedAbove < REVEAL_AROUND_CURSOR_LINES) {
+        first--;
+        revealedAbove++;
+    }
+    let last = current;
+    while (last < state.doc.lines && !this.isLineHidden(state, last + 1) && last + 1 <= current + REVEAL_AROUND_CURSOR_LINES) last++;
+    let revealedBelow = 0;
+    while (last < state.doc.lines && this.isLineHidden(state, last + 1) && revealedBelow < REVEAL_AROUND_CURSOR_LINES) {
+        last++;
+        revealedBelow++;
+    }
+    if (revealedAbove === 0 && revealedBelow === 0) {
+        new Notice('No hidden lines around the cursor.');
+        return;
+    }
+    cm.dispatch({ effects: revealLinesEffect.of({ from: state.doc.line(first).from, to: state.doc.line(last).to }) });
+}
+
+// Reveals the list item or heading the cursor line belongs to, until the filter is applied again
+revealParentLine(editor: Editor) {
+    const cm = this.getFilteredEditor(editor);
+    if (!cm) return;
+    const state = cm.state;
+    const parent = findParentLine(state.doc, state.doc.lineAt(state.selection.main.head).number);
+    if (parent === null) {
+        new Notice('This line has no parent.');
+        return;
+    }
+    if (!this.isLineHidden(state, parent)) {
+        new Notice(`The parent line ${parent} is already visible.`);
+        return;
+    }
+    const line = state.doc.line(parent);
+    cm.dispatch({ effects: [revealLinesEffect.of({ from: line.from, to: line.to }), EditorView.scrollIntoView(line.from, { y: 'nearest' })] });
+}
+
+// Shows the active filters of the focused editor and how many of its lines are visible, e.g. "work, !done · 12/340"
+updateStatusBar = (): void => {
+    const el = this.statusBarEl;
+    if (!el) return;
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const cm = view ? (view.editor as { cm?: EditorView }).cm : undefined;
+    const state = cm?.state.field(filterStateField, false);
+    if (!cm || !state) {
+        el.toggle(false);
+        return;
+    }
+    el.toggle(true);
+    el.empty();
+    if (state.activeFilters.length === 0) {
+        el.setText('No filter');
+        el.setAttribute('aria-label', 'Click to choose a filter');
+        el.removeClass('is-active');
+        return;
+    }
+
+    const names = state.activeFilters.map(filter => this.describeFilter(filter));
+    const { compiled } = cm.state.field(this.visibilityField);
+    const doc = cm.state.doc;
+    let visible = doc.lines;
+    if (compiled) {
+        visible = 0;
+        for (let i = 1; i <= doc.lines; i++) {
+            if (!this.isLineHidden(cm.state, i)) visible++;
+        }
+    }
+    el.createSpan({ cls: 'regex-filter-status-bar-names', text: names.join(', ') });
+    el.createSpan({ cls: 'regex-filter-status-bar-count', text: ` · ${visible}/${doc.lines}` });
+    el.setAttribute('aria-label', `${visible} of ${doc.lines} lines visible. Click to change filters`);
+    el.addClass('is-active');
+};
+
+updateStatusBarDebounced = debounce(this.updateStatusBar, 200, true);
+
+// Saved filter name, or the regex literal; exclusions are prefixed with ! like in filter expressions
+describeFilter(filter: ActiveFilter): string {
+    const saved = this.settings.savedRegexes.find(item => isFromSavedRegex(filter, item));
+    const label = saved?.name?.trim() || formatRegexLiteral(this.truncateRegex(filter.regex), filter.flags);
+    return filter.polarity === 'exclude' ? `!${label}` : label;
+}
+
+openStatusBarMenu(evt: MouseEvent) {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const cm = view ? (view.editor as { cm?: EditorView }).cm : undefined;
+    if (!view || !cm) return;
+    const { activeFilters } = cm.state.field(filterStateField);
+
+    const menu = new Menu();
+    for (const item of this.settings.savedRegexes) {
+        menu.addItem(menuItem => menuItem
+            .setTitle(item.name?.trim() || formatRegexLiteral(this.truncateRegex(item.regex), item.flags))
+            .setChecked(activeFilters.some(f => isFromSavedRegex(f, item)))
+            .onClick(() => this.toggleSavedRegex(item, view.editor, view)));
+    }
+    if (this.settings.savedRegexes.length > 0) {
+        menu.addSeparator();
+    }
+    menu.addItem(menuItem => menuItem
+        .setTitle('Enter regex…')
+        .setIcon('filter')
+        .onClick(() => this.promptForManualRegex(cm)));
+    menu.addItem(menuItem => menuItem
+        .setTitle('Clear all filters')
+        .setIcon('x')
+        .setDisabled(activeFilters.length === 0)
+        .onClick(() => this.setActiveFilters(view.leaf, [])));
+    menu.showAtMouseEvent(evt);
+}
+
+// Only refreshes the body classes. Filter changes must not reload the remembered filters: in frontmatter mode
+// the metadata cache still holds the old property until the asynchronous write has been indexed.
 public updateBodyClassForActiveLeaf(): void {
 
 const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-this.handleActiveLeafChange(activeView ? activeView.leaf : null);
+this.updateBodyClasses(activeView ? activeView.leaf : null);
     }
 
+// Loads the remembered filters of the active note, e.g. on startup when no active-leaf-change fires for it
+loadFiltersForActiveLeaf(): void {
+    const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+    this.handleActiveLeafChange(activeView ? activeView.leaf : null);
+}
+
 
 
 
@@ -555,6 +1168,9 @@ this.settings.regexHistory = (this.settings.regexHistory || []).slice(0, REGEX_H
 this.settings.savedRegexes = this.settings.savedRegexes || [];
 this.settings.pinnedRegexes = this.settings.pinnedRegexes || [];
 this.settings.persistedFilters = this.settings.persistedFilters || {};
+for (const filePath of Object.keys(this.settings.persistedFilters)) {
+    this.settings.persistedFilters[filePath] = normalizeActiveFilters(this.settings.persistedFilters[filePath] || []);
+}
 // this.settings.activeFilters = this.settings.activeFilters || []; // No longer needed
 if (typeof this.settings.includeChildItems !== 'boolean') {
 
@@ -571,12 +1187,43 @@ this.settings.hideEmptyLines = DEFAULT_SETTINGS.hideEmptyLines;
 if (typeof this.settings.enableTemplateVariables !== 'boolean') {
  this.settings.enableTemplateVariables = DEFAULT_SETTINGS.enableTemplateVariables;
         }
+this.settings.autoApplyRules = Array.isArray(this.settings.autoApplyRules) ? this.settings.autoApplyRules : [];
+this.settings.presets = Array.isArray(this.settings.presets) ? this.settings.presets : [];
+this.settings.customSnippets = Array.isArray(this.settings.customSnippets) ? this.settings.customSnippets : [];
+if (typeof this.settings.useFrontmatterFilters !== 'boolean') {
+    this.settings.useFrontmatterFilters = DEFAULT_SETTINGS.useFrontmatterFilters;
+}
+if (typeof this.settings.frontmatterFilterProperty !== 'string' || this.settings.frontmatterFilterProperty.trim() === '') {
+    this.settings.frontmatterFilterProperty = DEFAULT_SETTINGS.frontmatterFilterProperty;
+}
 if (typeof this.settings.noteTitleTransparency !== 'number') {
  this.settings.noteTitleTransparency = DEFAULT_SETTINGS.noteTitleTransparency;
         }
 if (typeof this.settings.copyOnlyFilteredText !== 'boolean') {
     this.settings.copyOnlyFilteredText = DEFAULT_SETTINGS.copyOnlyFilteredText;
 }
+if (this.settings.defaultCombineMode !== 'any' && this.settings.defaultCombineMode !== 'all') {
+    this.settings.defaultCombineMode = DEFAULT_SETTINGS.defaultCombineMode;
+}
+if (typeof this.settings.highlightMatches !== 'boolean') {
+    this.settings.highlightMatches = DEFAULT_SETTINGS.highlightMatches;
+}
+if (typeof this.settings.highlightCaptureGroups !== 'boolean') {
+    this.settings.highlightCaptureGroups = DEFAULT_SETTINGS.highlightCaptureGroups;
+}
+if (typeof this.settings.collapseHiddenLines !== 'boolean') {
+    this.settings.collapseHiddenLines = DEFAULT_SETTINGS.collapseHiddenLines;
+}
+if (typeof this.settings.keepEditedLinesVisible !== 'boolean') {
+    this.settings.keepEditedLinesVisible = DEFAULT_SETTINGS.keepEditedLinesVisible;
+}
+this.settings.skipZones = { ...DEFAULT_SETTINGS.skipZones, ...(this.settings.skipZones || {}) };
+if (typeof this.settings.contextLinesBefore !== 'number') {
+    this.settings.contextLinesBefore = DEFAULT_SETTINGS.contextLinesBefore;
+}
+if (typeof this.settings.contextLinesAfter !== 'number') {
+    this.settings.contextLinesAfter = DEFAULT_SETTINGS.contextLinesAfter;
+}
 
     }
 
@@ -588,9 +1235,78 @@ async saveSettings() {
 await this.saveData(this.settings);
 }
 
-async saveFiltersForFile(filePath: string, regexStrings: string[]) {
-    if (regexStrings.length > 0) {
-        this.settings.persistedFilters[filePath] = [...regexStrings];
+// Filters to apply when a note is opened: its frontmatter property when enabled and present, else the remembered ones,
+// else those of matching auto-apply rules. Rules are evaluated on every open, so rule edits reach notes without filters of their own.
+getFiltersForFile(file: TFile): ActiveFilter[] {
+    return this.getFrontmatterFilters(file) ?? this.settings.persistedFilters[file.path] ?? this.getAutoApplyFilters(file);
+}
+
+getFrontmatterFilters(file: TFile): ActiveFilter[] | null {
+    if (!this.settings.useFrontmatterFilters) return null;
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter || frontmatter[this.settings.frontmatterFilterProperty] === undefined) return null;
+    return parseFilterList(frontmatter[this.settings.frontmatterFilterProperty]);
+}
+
+getAutoApplyFilters(file: TFile): ActiveFilter[] {
+    const filters: ActiveFilter[] = [];
+    for (const rule of this.settings.autoApplyRules) {
+        if (!this.ruleMatchesFile(rule, file)) continue;
+        for (const id of rule.savedRegexIds) {
+            const item = this.settings.savedRegexes.find(saved => saved.id === id);
+            // Parameterised filters need values from the user, so they cannot be applied automatically
+            if (item && !hasFilterParameters(item.regex) && !filters.some(f => f.regex === item.regex)) {
+                filters.push(toActiveFilter(item));
+            }
+        }
+    }
+    return filters;
+}
+
+ruleMatchesFile(rule: AutoApplyRule, file: TFile): boolean {
+    const pattern = rule.pattern.trim();
+    if (pattern === '') return false;
+    try {
+        switch (rule.type) {
+            case 'folder':
+                return globToRegExp(pattern).test(file.path);
+            case 'tag':
+                return this.fileHasTag(file, pattern);
+            case 'filename':
+                return new RegExp(pattern, 'u').test(file.basename);
+        }
+    } catch (e) {
+        console.warn(`Regex Line Filter: Invalid auto-apply rule pattern "${pattern}"`, e);
+    }
+    return false;
+}
+
+// Nested tags count too, so #work also matches #work/meetings
+fileHasTag(file: TFile, tag: string): boolean {
+    const wanted = '#' + tag.trim().replace(/^#/, '').toLowerCase();
+    const cache = this.app.metadataCache.getFileCache(file);
+    const tags = cache ? getAllTags(cache) : null;
+    return !!tags && tags.some(t => t.toLowerCase() === wanted || t.toLowerCase().startsWith(wanted + '/'));
+}
+
+async saveFiltersForFile(filePath: string, filters: ActiveFilter[]) {
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    // Filters that only repeat the auto-apply rules are not stored, so later rule edits still reach the note.
+    // An empty list is stored when rules match, so a note the user cleared is not filled again.
+    const ruleFilters = file instanceof TFile ? this.getAutoApplyFilters(file) : [];
+    const isRuleOutput = ruleFilters.length > 0 && JSON.stringify(filters) === JSON.stringify(ruleFilters);
+    const keepEmpty = filters.length === 0 && ruleFilters.length > 0;
+    if (this.settings.useFrontmatterFilters && file instanceof TFile && file.extension === 'md') {
+        await this.saveFiltersToFrontmatter(file, isRuleOutput ? null : filters, keepEmpty);
+        if (this.settings.persistedFilters.hasOwnProperty(filePath)) {
+            // The note is now the source of truth, so drop any entry left from before the option was enabled
+            delete this.settings.persistedFilters[filePath];
+            await this.saveSettings();
+        }
+        return;
+    }
+    if (!isRuleOutput && (filters.length > 0 || keepEmpty)) {
+        this.settings.persistedFilters[filePath] = [...filters];
     } else {
         if (this.settings.persistedFilters.hasOwnProperty(filePath)) {
             delete this.settings.persistedFilters[filePath];
@@ -599,6 +1315,28 @@ async saveFiltersForFile(filePath: string, regexStrings: string[]) {
     await this.saveSettings();
 }
 
+// Null, or an empty list unless keepEmpty is set, removes the property
+async saveFiltersToFrontmatter(file: TFile, filters: ActiveFilter[] | null, keepEmpty = false) {
+    const property = this.settings.frontmatterFilterProperty;
+    const keep = filters !== null && (filters.length > 0 || keepEmpty);
+    const serialized = keep ? serializeFilterList(filters) : undefined;
+    const current = this.app.metadataCache.getFileCache(file)?.frontmatter?.[property];
+    // Avoid rewriting the note when nothing changed, e.g. when the property was just applied on open
+    if (JSON.stringify(current) === JSON.stringify(serialized)) return;
+    try {
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            if (keep) {
+                frontmatter[property] = serialized;
+            } else {
+                delete frontmatter[property];
+            }
+        });
+    } catch (e) {
+        console.error("Regex Line Filter: Could not update frontmatter", e);
+        new Notice(`Could not save filters to the frontmatter of ${file.basename}: ${(e as Error).message}`);
+    }
+}
+
 // This function is no longer needed as the state is not saved globally.
 // setAndSaveActiveFilters(activeFilters: string[]) {
 //   this.settings.activeFilters = activeFilters;
@@ -608,6 +1346,152 @@ async saveFiltersForFile(filePath: string, regexStrings: string[]) {
 
 
 
+findLeafForEditor(cm: EditorView): WorkspaceLeaf | null {
+    let found: WorkspaceLeaf | null = null;
+    this.app.workspace.iterateAllLeaves(leaf => {
+        if (!found && leaf.view instanceof MarkdownView && (leaf.view.editor as any).cm === cm) {
+            found = leaf;
+        }
+    });
+    return found;
+}
+
+// Editors showing the target: the given leaf, every leaf showing the given file, or the active editor
+getFilterTargets(target?: WorkspaceLeaf | TFile): FilterTarget[] {
+    const targets: FilterTarget[] = [];
+    const add = (leaf: WorkspaceLeaf) => {
+        if (leaf.view instanceof MarkdownView) {
+            const cm = (leaf.view.editor as any).cm as EditorView;
+            if (cm && cm.state.field(filterStateField, false) !== undefined) {
+                targets.push({ leaf, view: leaf.view, cm });
+            }
+        }
+    };
+    if (target instanceof TFile) {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView && leaf.view.file?.path === target.path) add(leaf);
+        });
+    } else if (target) {
+        add(target);
+    } else {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (view) add(view.leaf);
+    }
+    return targets;
+}
+
+getFilterState(target?: WorkspaceLeaf | TFile): FilterState | null {
+    const [first] = this.getFilterTargets(target);
+    return first ? first.cm.state.field(filterStateField) : null;
+}
+
+// Replaces the active filters of the target's editors and remembers them for the note.
+// A file that is not open only gets its remembered filters updated.
+async setActiveFilters(target: WorkspaceLeaf | TFile | undefined, filters: ActiveFilter[]): Promise<boolean> {
+    const targets = this.getFilterTargets(target);
+    for (const { cm } of targets) {
+        cm.dispatch({ effects: replaceAllFiltersEffect.of(filters), selection: cm.state.selection });
+    }
+    const file = target instanceof TFile ? target : targets[0]?.view.file;
+    if (file) {
+        await this.saveFiltersForFile(file.path, filters);
+    }
+    this.updateBodyClassForActiveLeaf();
+    this.events.trigger('filter-changed');
+    return targets.length > 0 || target instanceof TFile;
+}
+
+// Filter state of a newly opened editor, derived from the settings
+createInitialFilterState(): FilterState {
+    return {
+        activeFilters: [],
+        hideEmptyLines: this.settings.hideEmptyLines,
+        includeChildItems: this.settings.includeChildItems,
+        includeHeadingChildItems: this.settings.includeHeadingChildItems,
+        copyOnlyFilteredText: this.settings.copyOnlyFilteredText,
+        combineMode: this.settings.defaultCombineMode,
+        combineExpression: "",
+        highlightMatches: this.settings.highlightMatches,
+        highlightCaptureGroups: this.settings.highlightCaptureGroups,
+        contextLinesBefore: this.settings.contextLinesBefore,
+        contextLinesAfter: this.settings.contextLinesAfter,
+        collapseHiddenLines: this.settings.collapseHiddenLines,
+        keepEditedLinesVisible: this.settings.keepEditedLinesVisible,
+        skipZones: this.settings.skipZones,
+        activePreset: null,
+    };
+}
+
+// Filters text that is not open in an editor, e.g. notes searched by the results view, with the default options from settings.
+// Note variables such as {{title}} refer to `file` when given, and to the active editor otherwise.
+computeVisibilityForText(lines: string[], filters: ActiveFilter[], file?: TFile): VisibilityMap {
+    if (filters.length === 0) return EMPTY_VISIBILITY_MAP;
+    const state: FilterState = { ...this.createInitialFilterState(), activeFilters: filters };
+    const context = file ? this.getTemplateContextForFile(file) : this.getActiveTemplateContext();
+    return buildVisibilityMap(textLines(lines), this.compileFilters(state, context), state);
+}
+
+async activateResultsView() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_FILTER_RESULTS)[0];
+    if (!leaf) {
+        const rightLeaf = workspace.getRightLeaf(false);
+        if (!rightLeaf) return;
+        leaf = rightLeaf;
+        await leaf.setViewState({ type: VIEW_TYPE_FILTER_RESULTS, active: true });
+    }
+    workspace.revealLeaf(leaf);
+}
+
+// Without a context, note variables refer to the active editor, e.g. when validating a filter before applying it
+resolveRegexString(regexString: string, context: TemplateContext = this.getActiveTemplateContext()): string {
+    return this.settings.enableTemplateVariables ? Templater.resolve(regexString, context) : regexString;
+}
+
+// The note and editor that {{title}}, {{folder}}, {{fm:key}}, {{selection}} and {{word}} refer to.
+// Filters are resolved when they are applied or refreshed, so the selection is the one at that moment.
+getTemplateContext(state: EditorState): TemplateContext {
+    const file = state.field(editorInfoField, false)?.file;
+    const context = file ? this.getTemplateContextForFile(file) : {};
+    const { from, to, head } = state.selection.main;
+    context.selection = state.sliceDoc(from, to);
+    const word = state.wordAt(head);
+    context.word = word ? state.sliceDoc(word.from, word.to) : "";
+    return context;
+}
+
+getTemplateContextForFile(file: TFile): TemplateContext {
+    return {
+        title: file.basename,
+        folder: file.parent && !file.parent.isRoot() ? file.parent.path : "",
+        frontmatter: this.app.metadataCache.getFileCache(file)?.frontmatter,
+    };
+}
+
+getActiveTemplateContext(): TemplateContext {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const cm = (view?.editor as { cm?: EditorView } | undefined)?.cm;
+    if (cm instanceof EditorView) return this.getTemplateContext(cm.state);
+    const file = this.app.workspace.getActiveFile();
+    return file ? this.getTemplateContextForFile(file) : {};
+}
+
+compileFilters(state: FilterState, context?: TemplateContext): CompiledFilters {
+    const templateContext = context ?? this.getActiveTemplateContext();
+    return compileActiveFilters(state.activeFilters, {
+        resolve: s => this.resolveRegexString(s, templateContext),
+        combineMode: state.combineMode,
+        combineExpression: state.combineExpression,
+        nameFor: filter => this.settings.savedRegexes.find(item => isFromSavedRegex(filter, item))?.name,
+        contextLinesBefore: state.contextLinesBefore,
+        contextLinesAfter: state.contextLinesAfter,
+        skipZones: state.skipZones,
+    });
+}
+
+
+
+
 updateRegexHistory(newRegexString: string) {
 const filteredHistory = (this.settings.regexHistory || []).filter(r => r !== newRegexString);
 const updatedHistory = [newRegexString, ...filteredHistory];
@@ -685,6 +1569,123 @@ dispatchCopyOnlyFilteredTextToEditors(newValue: boolean) {
 
 
 
+dispatchCombineModeToEditors(newValue: FilterCombineMode) {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const cm = (leaf.view.editor as any).cm as EditorView;
+                if (cm) {
+                    try {
+                        if (cm.state.field(filterStateField, false) !== undefined) {
+                            cm.dispatch({ effects: setCombineModeEffect.of(newValue) });
+                        }
+                    } catch (e) { console.warn("Regex Line Filter: Error dispatching combineMode", e); }
+                }
+            }
+        });
+    }
+
+
+
+
+dispatchHighlightOptionsToEditors(highlightMatches: boolean, highlightCaptureGroups: boolean) {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const cm = (leaf.view.editor as any).cm as EditorView;
+                if (cm) {
+                    try {
+                        if (cm.state.field(filterStateField, false) !== undefined) {
+                            cm.dispatch({ effects: [
+                                setHighlightMatchesEffect.of(highlightMatches),
+                                setHighlightCaptureGroupsEffect.of(highlightCaptureGroups),
+                            ] });
+                        }
+                    } catch (e) { console.warn("Regex Line Filter: Error dispatching highlight options", e); }
+                }
+            }
+        });
+    }
+
+
+
+
+refreshFiltersInEditors() {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const cm = (leaf.view.editor as any).cm as EditorView;
+                if (cm) {
+                    try {
+                        if (cm.state.field(filterStateField, false) !== undefined) {
+                            cm.dispatch({ effects: refreshFilterEffect.of() });
+                        }
+                    } catch (e) { console.warn("Regex Line Filter: Error refreshing filters", e); }
+                }
+            }
+        });
+    }
+
+dispatchContextLinesToEditors(before: number, after: number) {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const cm = (leaf.view.editor as any).cm as EditorView;
+                if (cm) {
+                    try {
+                        if (cm.state.field(filterStateField, false) !== undefined) {
+                            cm.dispatch({ effects: setContextLinesEffect.of({ before, after }) });
+                        }
+                    } catch (e) { console.warn("Regex Line Filter: Error dispatching context lines", e); }
+                }
+            }
+        });
+    }
+
+dispatchCollapseHiddenLinesToEditors(newValue: boolean) {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const cm = (leaf.view.editor as any).cm as EditorView;
+                if (cm) {
+                    try {
+                        if (cm.state.field(filterStateField, false) !== undefined) {
+                            cm.dispatch({ effects: setCollapseHiddenLinesEffect.of(newValue) });
+                        }
+                    } catch (e) { console.warn("Regex Line Filter: Error dispatching collapseHiddenLines", e); }
+                }
+            }
+        });
+    }
+
+dispatchKeepEditedLinesVisibleToEditors(newValue: boolean) {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const cm = (leaf.view.editor as any).cm as EditorView;
+                if (cm) {
+                    try {
+                        if (cm.state.field(filterStateField, false) !== undefined) {
+                            cm.dispatch({ effects: setKeepEditedLinesVisibleEffect.of(newValue) });
+                        }
+                    } catch (e) { console.warn("Regex Line Filter: Error dispatching keepEditedLinesVisible", e); }
+                }
+            }
+        });
+    }
+
+dispatchSkipZonesToEditors(skipZones: SkipZoneSettings) {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const cm = (leaf.view.editor as any).cm as EditorView;
+                if (cm) {
+                    try {
+                        if (cm.state.field(filterStateField, false) !== undefined) {
+                            cm.dispatch({ effects: setSkipZonesEffect.of({ ...skipZones }) });
+                        }
+                    } catch (e) { console.warn("Regex Line Filter: Error dispatching skip zones", e); }
+                }
+            }
+        });
+    }
+
+
+
+
 addCssVariables() {
 const cssId = 'regex-filter-dynamic-styles'; if (document.getElementById(cssId)) return;
 const vignetteWidth = '160px'; const vignetteColor = 'rgba(0, 0, 0, 0.4)'; const transitionDuration = '0.3s';
@@ -702,12 +1703,13 @@ if (existingStyle) { existingStyle.remove(); }
 
 document.body.classList.remove(ACTIVE_FILTER_BODY_CLASS);
 document.body.classList.remove(FADE_TITLE_BODY_CLASS);
+document.body.classList.remove(READING_VIEW_BODY_CLASS);
     }
 
 
 
 
-toggleGlobalFilter(editor: Editor, view: MarkdownView) {
+toggleGlobalFilter(editor: Editor, view: MarkdownView, polarity: FilterPolarity = 'include') {
 
 const cm = (editor as { cm?: EditorView }).cm;
 if (!cm || !(cm instanceof EditorView)) {
@@ -718,7 +1720,7 @@ return;
 
 const currentFilterState = cm.state.field(filterStateField);
 
-if (currentFilterState.unresolvedRegexStrings.length > 0) { // If ANY filter is active (saved or manual)
+if (currentFilterState.activeFilters.length > 0) { // If ANY filter is active (saved or manual)
 
 // Save cursor position before clearing
 const currentSelection = cm.state.selection;
@@ -732,10 +1734,11 @@ if (view.file) {
 }
 
 this.updateBodyClassForActiveLeaf();
+this.events.trigger('filter-changed');
 new Notice('All regex filters disabled.');
         } else { // If NO filters are active
 
-this.promptForManualRegex(cm); // Prompt for a new, single manual filter
+this.promptForManualRegex(cm, polarity); // Prompt for a new, single manual filter
 
         }
 
@@ -744,7 +1747,7 @@ this.promptForManualRegex(cm); // Prompt for a new, single manual filter
 
 
 
-promptForManualRegex(cm: EditorView) {
+promptForManualRegex(cm: EditorView, initialPolarity: FilterPolarity = 'include') {
 
 const prefillValue = this.lastRegexStr ?? this.settings.regexHistory[0] ?? "";
 new RegexInputModal(
@@ -752,40 +1755,43 @@ new RegexInputModal(
     this,
     prefillValue,
     this.settings.regexHistory,
-    (result: string | null, isPinned: boolean): void => {
+    (result: string | null, isPinned: boolean, polarity: FilterPolarity): void => {
         if (result && result.trim() !== "") { // Ensure result is not null or just whitespace
             try {
-                // Validate syntax AFTER resolving templates, if enabled
-                const stringToValidate = this.settings.enableTemplateVariables ? Templater.resolve(result) : result;
-                new RegExp(stringToValidate, 'u');
+                // Split `/pattern/flags` literals, then validate syntax AFTER resolving templates, if enabled
+                const parsed = parseRegexInput(result);
+                compileFilterMatcher(parsed.regex, regexFlagsFor(parsed), s => this.resolveRegexString(s));
 
                 // If validation passes, dispatch the original, unresolved string to the state
+                const filter: ActiveFilter = { regex: parsed.regex, polarity };
+                if (parsed.flags) filter.flags = parsed.flags;
                 this.lastRegexStr = result;
                 this.updateRegexHistory(result);
-                cm.dispatch({ effects: [applyManualRegexStringEffect.of(result)] });
+                cm.dispatch({ effects: [applyManualFilterEffect.of(filter)] });
                 
                 // Save the new state
                 const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
                 if (file) {
-                    this.saveFiltersForFile(file.path, [result]);
+                    this.saveFiltersForFile(file.path, [filter]);
                 }
                 
                 this.updateBodyClassForActiveLeaf();
-                const finalRegex = this.settings.enableTemplateVariables ? Templater.resolve(result) : result;
-                new Notice(`Regex filter enabled: /${this.truncateRegex(finalRegex)}/u`);
+                const finalRegex = this.resolveRegexString(parsed.regex);
+                const label = polarity === 'exclude' ? 'Regex exclusion filter enabled' : 'Regex filter enabled';
+                new Notice(`${label}: ${formatRegexLiteral(this.truncateRegex(finalRegex), parsed.flags)}`);
 
                 // Pinning is now handled inside the RegexInputModal
 
             } catch (e) {
                 new Notice(`Invalid regex: ${(e as Error).message}`);
-                cm.dispatch({ effects: applyManualRegexStringEffect.of(null) });
+                cm.dispatch({ effects: applyManualFilterEffect.of(null) });
                 this.updateBodyClassForActiveLeaf();
             }
         } else if (result === "" || result === null) { // User submitted empty or cancelled
             if (result === "") { // Explicit empty submission
                 const currentSelection = cm.state.selection;
                 cm.dispatch({
-                    effects: applyManualRegexStringEffect.of(null),
+                    effects: applyManualFilterEffect.of(null),
                     selection: currentSelection
                 });
                 
@@ -801,53 +1807,174 @@ new RegexInputModal(
                 new Notice('Regex filter input cancelled.');
             }
         }
-    }
+    },
+    initialPolarity
 ).open();
     }
 
 
 
 
-toggleSpecificSavedRegex(regexString: string, editor: Editor, view: MarkdownView) {
+// Lets the user pick a snippet and inserts it into a regex input, asking for its {{?placeholder}} values first
+pickSnippet(inputEl: HTMLInputElement) {
+        new SnippetSuggestModal(this.app, allSnippets(this.settings.customSnippets), snippet => {
+            const parameters = findFilterParameters(snippet.pattern);
+            if (parameters.length === 0) {
+                insertIntoInput(inputEl, snippet.pattern);
+                return;
+            }
+            new FilterParametersModal(this.app, snippet.name, parameters, {}, values => {
+                if (values) insertIntoInput(inputEl, fillFilterParameters(snippet.pattern, values));
+            }).open();
+        }).open();
+    }
+
+// Toggles a saved filter. Parameterised filters ask for their {{?placeholder}} values when switched on.
+async toggleSavedRegex(item: SavedRegexItem, editor: Editor, view: MarkdownView) {
+        const filter = toActiveFilter(item);
+        if (!hasFilterParameters(item.regex)) {
+            this.toggleSpecificSavedRegex(filter, editor, view);
+            return;
+        }
         const cm = (editor as { cm?: EditorView }).cm;
         if (!cm || !(cm instanceof EditorView)) { new Notice("Filter not available in this view."); return; }
 
+        const activeFilter = cm.state.field(filterStateField).activeFilters.find(f => isFromSavedRegex(f, item));
+        if (activeFilter) {
+            this.toggleSpecificSavedRegex(activeFilter, editor, view);
+            return;
+        }
+        const regex = await this.promptForFilterParameters(item);
+        if (regex !== null) {
+            this.toggleSpecificSavedRegex({ ...filter, regex, template: item.regex }, editor, view);
+        }
+    }
+
+// Asks for the placeholder values of a parameterised saved filter and remembers them as its recent answers.
+// Resolves to the filled-in regex, or null when the prompt was cancelled.
+promptForFilterParameters(item: SavedRegexItem): Promise<string | null> {
+        const parameters = findFilterParameters(item.regex);
+        return new Promise(resolve => {
+            new FilterParametersModal(this.app, item.name?.trim() || `/${this.truncateRegex(item.regex)}/`, parameters, item.recentAnswers ?? {}, async values => {
+                if (!values) {
+                    resolve(null);
+                    return;
+                }
+                const recentAnswers = { ...item.recentAnswers };
+                for (const [name, value] of Object.entries(values)) {
+                    recentAnswers[name] = [value, ...(recentAnswers[name] ?? []).filter(answer => answer !== value)].slice(0, REGEX_HISTORY_LIMIT);
+                }
+                item.recentAnswers = recentAnswers;
+                await this.saveSettings();
+                resolve(fillFilterParameters(item.regex, values));
+            }).open();
+        });
+    }
+
+toggleSpecificSavedRegex(filter: ActiveFilter, editor: Editor, view: MarkdownView) {
+        const cm = (editor as { cm?: EditorView }).cm;
+        if (!cm || !(cm instanceof EditorView)) { new Notice("Filter not available in this view."); return; }
+        const regexString = filter.regex;
+
         // Validate before dispatching if templates are on
         if (this.settings.enableTemplateVariables) {
             try {
-                new RegExp(Templater.resolve(regexString), 'u');
+                const context = this.getTemplateContext(cm.state);
+                compileFilterMatcher(regexString, regexFlagsFor(filter), s => this.resolveRegexString(s, context));
             } catch (e) {
                 new Notice(`Invalid regex in saved filter: ${(e as Error).message}`);
                 return;
             }
         }
 
-        const currentActiveStrings = cm.state.field(filterStateField).unresolvedRegexStrings;
-        const isCurrentlyActive = currentActiveStrings.includes(regexString);
+        const currentActiveFilters = cm.state.field(filterStateField).activeFilters;
+        const isCurrentlyActive = currentActiveFilters.some(f => f.regex === regexString);
 
         // Dispatch the raw, unresolved string. Resolution will happen in the view.
-        console.log(`Regex Filter: Dispatching toggle for "${regexString}"`);
+        console.log(`Regex Filter: Dispatching toggle for "${regexString}" (${filter.polarity})`);
         const currentSelection = cm.state.selection;
         cm.dispatch({
-            effects: toggleSpecificRegexStringEffect.of(regexString),
+            effects: toggleActiveFilterEffect.of(filter),
             selection: currentSelection
         });
         
         // Save the new state
-        const newActiveStrings = cm.state.field(filterStateField).unresolvedRegexStrings;
+        const newActiveFilters = cm.state.field(filterStateField).activeFilters;
         if (view.file) {
-            this.saveFiltersForFile(view.file.path, newActiveStrings);
+            this.saveFiltersForFile(view.file.path, newActiveFilters);
         }
         
         this.updateBodyClassForActiveLeaf();
         this.events.trigger('filter-changed');
 
+        const kind = filter.polarity === 'exclude' ? 'Exclusion filter' : 'Filter';
         if (isCurrentlyActive) {
-            new Notice(`Filter deactivated: /${this.truncateRegex(regexString)}/`);
+            new Notice(`${kind} deactivated: ${formatRegexLiteral(this.truncateRegex(regexString), filter.flags)}`);
+        } else {
+            const finalRegex = this.resolveRegexString(regexString);
+            new Notice(`${kind} activated: ${formatRegexLiteral(this.truncateRegex(finalRegex), filter.flags)}`);
+        }
+    }
+
+
+// Switches the editor into the preset's filters and options, or back to how it was when the preset is already on
+togglePreset(preset: FilterPreset, editor: Editor, view: MarkdownView) {
+        const cm = (editor as { cm?: EditorView }).cm;
+        if (!cm || !(cm instanceof EditorView)) { new Notice("Filter not available in this view."); return; }
+
+        const state = cm.state.field(filterStateField);
+        const filters = preset.savedRegexIds
+            .map(id => this.settings.savedRegexes.find(item => item.id === id))
+            .filter((item): item is SavedRegexItem => item !== undefined)
+            .map(toActiveFilter);
+        // The active preset is not remembered with the note: after it is reopened, the preset's filters alone show the preset is on
+        const hasPresetFilters = !state.activePreset && filters.length > 0 && state.activeFilters.length === filters.length
+            && state.activeFilters.every((f, i) => f.regex === filters[i].regex && f.polarity === filters[i].polarity);
+        const isActive = state.activePreset?.id === preset.id || hasPresetFilters;
+        if (isActive && state.activePreset) {
+            cm.dispatch({ effects: exitPresetEffect.of(), selection: cm.state.selection });
+        } else if (isActive) {
+            // Nothing to return to, so switching the preset off clears its filters
+            cm.dispatch({ effects: clearAllRegexesEffect.of(), selection: cm.state.selection });
         } else {
-            const finalRegex = this.settings.enableTemplateVariables ? Templater.resolve(regexString) : regexString;
-            new Notice(`Filter activated: /${this.truncateRegex(finalRegex)}/`);
+            cm.dispatch({ effects: enterPresetEffect.of({ id: preset.id, filters, options: preset.options }), selection: cm.state.selection });
+        }
+
+        if (view.file) {
+            this.saveFiltersForFile(view.file.path, cm.state.field(filterStateField).activeFilters);
         }
+        this.updateBodyClassForActiveLeaf();
+        this.events.trigger('filter-changed');
+        new Notice(`Preset ${isActive ? 'off' : 'on'}: ${preset.name}`);
+    }
+
+
+toggleCombineMode(editor: Editor) {
+        const cm = (editor as { cm?: EditorView }).cm;
+        if (!cm || !(cm instanceof EditorView)) { new Notice("Filter not available in this view."); return; }
+
+        const newMode: FilterCombineMode = cm.state.field(filterStateField).combineMode === 'any' ? 'all' : 'any';
+        cm.dispatch({ effects: setCombineModeEffect.of(newMode), selection: cm.state.selection });
+        this.updateBodyClassForActiveLeaf();
+        this.events.trigger('filter-changed');
+        new Notice(newMode === 'all'
+            ? 'Filters now combine with AND: lines must match every active filter.'
+            : 'Filters now combine with OR: lines may match any active filter.');
+    }
+
+
+promptForFilterExpression(editor: Editor) {
+        const cm = (editor as { cm?: EditorView }).cm;
+        if (!cm || !(cm instanceof EditorView)) { new Notice("Filter not available in this view."); return; }
+
+        const savedFilterNames = this.settings.savedRegexes.map(item => item.name ?? '').filter(name => name.trim() !== '');
+        new FilterExpressionModal(this.app, cm.state.field(filterStateField).combineExpression, savedFilterNames, (result: string | null) => {
+            if (result === null) return; // Cancelled
+            cm.dispatch({ effects: setCombineExpressionEffect.of(result), selection: cm.state.selection });
+            this.updateBodyClassForActiveLeaf();
+            this.events.trigger('filter-changed');
+            new Notice(result === "" ? 'Filter expression cleared.' : `Filter expression set: ${result}`);
+        }).open();
     }
 
 
@@ -877,15 +2004,16 @@ registerToggleCommandForSavedRegex(item: SavedRegexItem) {
         this.unregisterCommandForSavedRegex(item.id);
     }
 
+    const commandPrefix = item.polarity === 'exclude' ? 'Toggle Exclusion Filter' : 'Toggle Filter';
     const commandName = (item.name && item.name.trim() !== "")
-        ? `Toggle Filter: ${item.name}`
-        : `Toggle Filter: /${this.truncateRegex(item.regex)}/`;
+        ? `${commandPrefix}: ${item.name}`
+        : `${commandPrefix}: /${this.truncateRegex(item.regex)}/`;
 
     this.addCommand({
         id: commandId,
         name: commandName,
         editorCallback: (editor: Editor, view: MarkdownView) => {
-            this.toggleSpecificSavedRegex(item.regex, editor, view);
+            this.toggleSavedRegex(item, editor, view);
         }
     });
 }
@@ -893,6 +2021,27 @@ registerToggleCommandForSavedRegex(item: SavedRegexItem) {
 
 
 
+registerPresetCommand(preset: FilterPreset) {
+    this.unregisterPresetCommand(preset.id); // Re-adding updates the name
+    this.addCommand({
+        id: `toggle-preset-${preset.id}`,
+        name: `Toggle Preset: ${preset.name}`,
+        editorCallback: (editor: Editor, view: MarkdownView) => {
+            // Look the preset up again so edits made after registering are used
+            const current = this.settings.presets.find(p => p.id === preset.id);
+            if (current) this.togglePreset(current, editor, view);
+        }
+    });
+}
+
+unregisterPresetCommand(presetId: string) {
+    const fullCommandId = `${this.manifest.id}:toggle-preset-${presetId}`;
+    // @ts-ignore
+    if (this.app.commands.commands[fullCommandId]) delete this.app.commands.commands[fullCommandId];
+    // @ts-ignore
+    if (this.app.commands.editorCommands[fullCommandId]) delete this.app.commands.editorCommands[fullCommandId];
+}
+
 unregisterCommandForSavedRegex(itemSpecificIdPart: string) {
 
 const commandIdSuffix = `toggle-saved-regex-${itemSpecificIdPart}`;
@@ -916,6 +2065,9 @@ export class RegexLineFilterSettingTab extends PluginSettingTab {
 
 plugin: RegexLineFilterPlugin;
 savedRegexesDiv: HTMLDivElement;
+autoApplyRulesDiv: HTMLDivElement;
+snippetsDiv: HTMLDivElement;
+presetsDiv: HTMLDivElement;
 
 
 
@@ -957,6 +2109,37 @@ const hideEmptyLinesSetting = new Setting(containerEl)
 hideEmptyLinesSetting.nameEl.setAttribute('title', hideEmptyLinesDesc);
 hideEmptyLinesSetting.controlEl.setAttribute('title', hideEmptyLinesDesc);
 
+const collapseHiddenLinesDesc = 'Replace each run of hidden lines with a "N lines hidden" placeholder. Click a placeholder to reveal the block until the filter is applied again.';
+const collapseHiddenLinesSetting = new Setting(containerEl)
+    .setName('Show placeholders for hidden lines')
+    .addToggle(toggle => {
+        toggle
+            .setValue(this.plugin.settings.collapseHiddenLines)
+            .onChange(async (value) => {
+                this.plugin.settings.collapseHiddenLines = value;
+                await this.plugin.saveSettings();
+                this.plugin.dispatchCollapseHiddenLinesToEditors(value);
+            });
+    });
+collapseHiddenLinesSetting.nameEl.setAttribute('title', collapseHiddenLinesDesc);
+collapseHiddenLinesSetting.controlEl.setAttribute('title', collapseHiddenLinesDesc);
+
+const keepEditedLinesDesc = 'Lines you edit while a filter is active stay visible even when they no longer match, e.g. a task you just ticked. ' +
+    'They are marked and disappear when the filter is applied again or the "Refresh filter" command runs.';
+const keepEditedLinesSetting = new Setting(containerEl)
+    .setName('Keep edited lines visible')
+    .addToggle(toggle => {
+        toggle
+            .setValue(this.plugin.settings.keepEditedLinesVisible)
+            .onChange(async (value) => {
+                this.plugin.settings.keepEditedLinesVisible = value;
+                await this.plugin.saveSettings();
+                this.plugin.dispatchKeepEditedLinesVisibleToEditors(value);
+            });
+    });
+keepEditedLinesSetting.nameEl.setAttribute('title', keepEditedLinesDesc);
+keepEditedLinesSetting.controlEl.setAttribute('title', keepEditedLinesDesc);
+
 const includeIndentsDesc = 'Automatically include indented child items (tabs, bullets, numbers) when their parent line matches the filter.';
 const includeIndentsSetting = new Setting(containerEl)
     .setName('Include indents under filter match')
@@ -990,8 +2173,13 @@ includeHeadingSetting.controlEl.setAttribute('title', includeHeadingDesc);
 const templateVarsDesc = 'When enabled, templates resolve to dates or date ranges. ' +
     'Simple variables like {{today}} or {{yesterday}} resolve to a single date. ' +
     'Range variables like {{last-week}}, {{this-month}}, or {{next-year}} resolve to a regex matching all dates in that range (e.g., (2023-01-01|2023-01-02|...)). ' +
-    'You can also specify a custom format, e.g., {{today:DD-MM-YYYY}} or {{last-week:DD/MM/YYYY}}. ' +
-    'Supported variables: today, yesterday, tomorrow, this-week, last-week, next-week, this-month, last-month, next-month, this-year, last-year, next-year.';
+    'Add offsets in days, weeks, months or years, e.g., {{today-3d}} or {{today+2w}}, or use weekdays like {{next-monday}} or {{last-friday}}. ' +
+    'Rolling windows like {{last-14-days}} or {{next-7-days}} include today, and {{range:2025-01-01..2025-01-31}} covers any span (bounds may also be variables like today-7d). ' +
+    'You can also specify a custom format, e.g., {{today:DD-MM-YYYY}}, {{last-week:DD/MM/YYYY}} or {{today+2w:YYYY-MM-DD}}. ' +
+    'Supported variables: today, yesterday, tomorrow, this-week, last-week, next-week, this-month, last-month, next-month, this-year, last-year, next-year, ' +
+    'last-/this-/next-<weekday>, last-N-days/weeks/months, next-N-days/weeks/months, range:start..end. ' +
+    'Note variables match literal text from the current note: {{title}}, {{folder}}, {{fm:owner}} for a frontmatter property, ' +
+    '{{selection}} and {{word}} (the word at the cursor) when the filter is applied.';
 const templateVarsSetting = new Setting(containerEl)
     .setName('Enable template variables')
     .addToggle(toggle => {
@@ -1000,6 +2188,7 @@ const templateVarsSetting = new Setting(containerEl)
             .onChange(async (value) => {
                 this.plugin.settings.enableTemplateVariables = value;
                 await this.plugin.saveSettings();
+                this.plugin.refreshFiltersInEditors();
             });
     });
 templateVarsSetting.nameEl.setAttribute('title', templateVarsDesc);
@@ -1032,13 +2221,159 @@ const copyOnlyFilteredTextSetting = new Setting(containerEl)
         toggle
             .setValue(this.plugin.settings.copyOnlyFilteredText)
             .onChange(async (value) => {
-                this.plugin.settings.copyOnlyFilteredText = value;
+                this.plugin.settings.copyOnlyFilteredText = value;
+                await this.plugin.saveSettings();
+                this.plugin.dispatchCopyOnlyFilteredTextToEditors(value);
+            });
+    });
+copyOnlyFilteredTextSetting.nameEl.setAttribute('title', copyOnlyFilteredTextDesc);
+copyOnlyFilteredTextSetting.controlEl.setAttribute('title', copyOnlyFilteredTextDesc);
+
+const frontmatterFiltersDesc = 'Store the active filters of each note in a frontmatter property, e.g. regex-filter: ["#todo", "{{today}}"], instead of the plugin data. ' +
+    'The property is applied when the note is opened and updated when filters are toggled, so it syncs and moves with the note.';
+const frontmatterFiltersSetting = new Setting(containerEl)
+    .setName('Store note filters in frontmatter')
+    .addToggle(toggle => {
+        toggle
+            .setValue(this.plugin.settings.useFrontmatterFilters)
+            .onChange(async (value) => {
+                this.plugin.settings.useFrontmatterFilters = value;
+                await this.plugin.saveSettings();
+                frontmatterPropertySetting.settingEl.toggle(value);
+            });
+    });
+frontmatterFiltersSetting.nameEl.setAttribute('title', frontmatterFiltersDesc);
+frontmatterFiltersSetting.controlEl.setAttribute('title', frontmatterFiltersDesc);
+
+const frontmatterPropertySetting = new Setting(containerEl)
+    .setName('Frontmatter property')
+    .setDesc('Name of the property holding a note\'s filters.')
+    .addText(text => {
+        text
+            .setPlaceholder(DEFAULT_SETTINGS.frontmatterFilterProperty)
+            .setValue(this.plugin.settings.frontmatterFilterProperty)
+            .onChange(async (value) => {
+                this.plugin.settings.frontmatterFilterProperty = value.trim() || DEFAULT_SETTINGS.frontmatterFilterProperty;
+                await this.plugin.saveSettings();
+            });
+    });
+frontmatterPropertySetting.settingEl.toggle(this.plugin.settings.useFrontmatterFilters);
+
+const combineModeDesc = 'How several active filters combine in a newly opened editor. "Any" shows lines matching at least one filter (OR), "All" only shows lines matching every filter (AND). ' +
+    'Use the "Set filter expression" command for mixed logic such as work & !done.';
+const combineModeSetting = new Setting(containerEl)
+    .setName('Combine active filters')
+    .addDropdown(dropdown => {
+        dropdown
+            .addOption('any', 'Any (OR)')
+            .addOption('all', 'All (AND)')
+            .setValue(this.plugin.settings.defaultCombineMode)
+            .onChange(async (value) => {
+                this.plugin.settings.defaultCombineMode = value as FilterCombineMode;
+                await this.plugin.saveSettings();
+                this.plugin.dispatchCombineModeToEditors(value as FilterCombineMode);
+            });
+    });
+combineModeSetting.nameEl.setAttribute('title', combineModeDesc);
+combineModeSetting.controlEl.setAttribute('title', combineModeDesc);
+
+const highlightMatchesDesc = 'Highlight the text matched by each active filter on visible lines, using a different colour per filter.';
+const highlightMatchesSetting = new Setting(containerEl)
+    .setName('Highlight matches')
+    .addToggle(toggle => {
+        toggle
+            .setValue(this.plugin.settings.highlightMatches)
+            .onChange(async (value) => {
+                this.plugin.settings.highlightMatches = value;
+                await this.plugin.saveSettings();
+                this.plugin.dispatchHighlightOptionsToEditors(value, this.plugin.settings.highlightCaptureGroups);
+            });
+    });
+highlightMatchesSetting.nameEl.setAttribute('title', highlightMatchesDesc);
+highlightMatchesSetting.controlEl.setAttribute('title', highlightMatchesDesc);
+
+const highlightGroupsDesc = 'When match highlighting is on, also style named capture groups such as (?<due>...). Themes can target a group with [data-group="due"].';
+const highlightGroupsSetting = new Setting(containerEl)
+    .setName('Highlight named capture groups')
+    .addToggle(toggle => {
+        toggle
+            .setValue(this.plugin.settings.highlightCaptureGroups)
+            .onChange(async (value) => {
+                this.plugin.settings.highlightCaptureGroups = value;
+                await this.plugin.saveSettings();
+                this.plugin.dispatchHighlightOptionsToEditors(this.plugin.settings.highlightMatches, value);
+            });
+    });
+highlightGroupsSetting.nameEl.setAttribute('title', highlightGroupsDesc);
+highlightGroupsSetting.controlEl.setAttribute('title', highlightGroupsDesc);
+
+const contextLinesDesc = 'Like grep -B / -A: also show this many lines before and after each matching line. Context lines are dimmed. Saved filters can override these values.';
+const parseContextLines = (value: string): number | null => {
+    const parsed = Number(value.trim());
+    return value.trim() !== "" && Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+};
+const contextBeforeSetting = new Setting(containerEl)
+    .setName('Context lines before match')
+    .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text
+            .setValue(String(this.plugin.settings.contextLinesBefore))
+            .onChange(async (value) => {
+                const parsed = parseContextLines(value);
+                if (parsed === null) return;
+                this.plugin.settings.contextLinesBefore = parsed;
+                await this.plugin.saveSettings();
+                this.plugin.dispatchContextLinesToEditors(parsed, this.plugin.settings.contextLinesAfter);
+            });
+    });
+contextBeforeSetting.nameEl.setAttribute('title', contextLinesDesc);
+contextBeforeSetting.controlEl.setAttribute('title', contextLinesDesc);
+
+const contextAfterSetting = new Setting(containerEl)
+    .setName('Context lines after match')
+    .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text
+            .setValue(String(this.plugin.settings.contextLinesAfter))
+            .onChange(async (value) => {
+                const parsed = parseContextLines(value);
+                if (parsed === null) return;
+                this.plugin.settings.contextLinesAfter = parsed;
                 await this.plugin.saveSettings();
-                this.plugin.dispatchCopyOnlyFilteredTextToEditors(value);
+                this.plugin.dispatchContextLinesToEditors(this.plugin.settings.contextLinesBefore, parsed);
             });
     });
-copyOnlyFilteredTextSetting.nameEl.setAttribute('title', copyOnlyFilteredTextDesc);
-copyOnlyFilteredTextSetting.controlEl.setAttribute('title', copyOnlyFilteredTextDesc);
+contextAfterSetting.nameEl.setAttribute('title', contextLinesDesc);
+contextAfterSetting.controlEl.setAttribute('title', contextLinesDesc);
+
+containerEl.createEl('h3', { text: 'Skip Zones' });
+const skipZonesDesc = 'Keep these regions out of matching so patterns like ^- or TODO do not pick up frontmatter, code or comments. ' +
+    'Skipped regions are still shown when they belong to a matching heading or list item.';
+containerEl.createEl('p', { text: skipZonesDesc, cls: 'setting-item-description' });
+const skipZoneNames: Record<SkipZone, string> = {
+    frontmatter: 'Frontmatter',
+    codeBlock: 'Code blocks',
+    comment: 'Comments (%% … %%)',
+};
+for (const zone of Object.keys(skipZoneNames) as SkipZone[]) {
+    new Setting(containerEl)
+        .setName(skipZoneNames[zone])
+        .addDropdown(dropdown => {
+            dropdown
+                .addOption('match', 'Match like other text')
+                .addOption('skip', 'Do not match')
+                .addOption('hide', 'Do not match, always hide')
+                .addOption('show', 'Do not match, always show')
+                .setValue(this.plugin.settings.skipZones[zone])
+                .onChange(async (value) => {
+                    this.plugin.settings.skipZones = { ...this.plugin.settings.skipZones, [zone]: value as SkipZoneMode };
+                    await this.plugin.saveSettings();
+                    this.plugin.dispatchSkipZonesToEditors(this.plugin.settings.skipZones);
+                });
+        });
+}
 
 containerEl.createEl('hr');
 containerEl.createEl('h3', { text: 'Saved Regex Filters' });
@@ -1057,6 +2392,45 @@ button.setButtonText('Add New Saved Regex').setCta()
 this.savedRegexesDiv = containerEl.createDiv('saved-regex-list');
 this.initExistingSavedRegexes(this.savedRegexesDiv);
 
+containerEl.createEl('hr');
+containerEl.createEl('h3', { text: 'Auto-apply Rules' });
+containerEl.createEl('p', {
+    text: 'Apply saved filters to notes in a folder, with a tag or with a matching name when they are opened. Rules only fill notes without filters of their own: once you change or clear a note\'s filters, they are remembered and win. Saved filters with {{?placeholders}} cannot be used in rules.',
+    cls: 'setting-item-description',
+});
+new Setting(containerEl)
+    .addButton(button => button
+        .setButtonText('Add Rule')
+        .onClick(() => new AutoApplyRuleModal(this.app, this.plugin, this, null).open()));
+this.autoApplyRulesDiv = containerEl.createDiv('auto-apply-rule-list');
+this.initAutoApplyRules(this.autoApplyRulesDiv);
+
+containerEl.createEl('hr');
+containerEl.createEl('h3', { text: 'Presets' });
+containerEl.createEl('p', {
+    text: 'Bundle saved filters with display options. Each preset gets a "Toggle Preset" command that switches the editor into exactly that configuration and back.',
+    cls: 'setting-item-description',
+});
+new Setting(containerEl)
+    .addButton(button => button
+        .setButtonText('Add Preset')
+        .onClick(() => new PresetModal(this.app, this.plugin, this, null).open()));
+this.presetsDiv = containerEl.createDiv('preset-list');
+this.initPresets(this.presetsDiv);
+
+containerEl.createEl('hr');
+containerEl.createEl('h3', { text: 'Regex Snippets' });
+containerEl.createEl('p', {
+    text: 'Your own patterns for the snippet picker of the regex modals, listed after the built-in ones. Use {{?Name}} for values to ask for on insertion.',
+    cls: 'setting-item-description',
+});
+new Setting(containerEl)
+    .addButton(button => button
+        .setButtonText('Add Snippet')
+        .onClick(() => new SnippetModal(this.app, this.plugin, this, null).open()));
+this.snippetsDiv = containerEl.createDiv('snippet-list');
+this.initSnippets(this.snippetsDiv);
+
         // Listen for the custom event from the plugin
         this.plugin.events.on('filter-changed', this.onFilterChanged);
   }
@@ -1066,12 +2440,12 @@ this.initExistingSavedRegexes(this.savedRegexesDiv);
 
 initExistingSavedRegexes(container: HTMLDivElement): void {
     const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-    let activeFilters: string[] = [];
+    let activeFilters: ActiveFilter[] = [];
     if (activeView) {
         const cm = (activeView.editor as any).cm as EditorView;
         if (cm && cm.state.field(filterStateField, false)) {
             const state = cm.state.field(filterStateField);
-            activeFilters = state.unresolvedRegexStrings;
+            activeFilters = state.activeFilters;
         }
     }
 
@@ -1090,14 +2464,18 @@ const itemDiv = listEl.createDiv({ cls: 'saved-regex-item' });
 const textDiv = itemDiv.createDiv({ cls: 'saved-regex-text-container' });
 
 // Display name if it exists, otherwise show the regex
+const literalText = `/${savedRegexItem.regex}/${savedRegexItem.flags ?? ""}`;
 const displayName = (savedRegexItem.name && savedRegexItem.name.trim() !== "")
     ? savedRegexItem.name
-    : `/${savedRegexItem.regex}/`;
+    : literalText;
 const subText = (savedRegexItem.name && savedRegexItem.name.trim() !== "")
-    ? `/${savedRegexItem.regex}/`
+    ? literalText
     : "";
 
-textDiv.createEl('div', { text: displayName, cls: 'saved-regex-name' });
+const nameEl = textDiv.createEl('div', { text: displayName, cls: 'saved-regex-name' });
+if (savedRegexItem.polarity === 'exclude') {
+    nameEl.createSpan({ text: 'Exclude', cls: 'saved-regex-polarity-badge' });
+}
 if (subText) {
     textDiv.createEl('div', { text: subText, cls: 'saved-regex-subtext' });
 }
@@ -1107,7 +2485,7 @@ settingControl.settingEl.style.border = 'none'; settingControl.settingEl.style.p
 
 
 settingControl.addExtraButton(button => {
-    const isCurrentlyActive = activeFilters.includes(savedRegexItem.regex);
+    const isCurrentlyActive = activeFilters.some(f => isFromSavedRegex(f, savedRegexItem));
     button
         .setIcon(isCurrentlyActive ? 'pause' : 'play')
         .setTooltip(isCurrentlyActive ? 'Deactivate this filter' : 'Activate this filter');
@@ -1119,7 +2497,7 @@ settingControl.addExtraButton(button => {
     button.onClick(() => {
         const currentActiveView = this.app.workspace.getActiveViewOfType(MarkdownView);
         if (currentActiveView) {
-            this.plugin.toggleSpecificSavedRegex(savedRegexItem.regex, currentActiveView.editor, currentActiveView);
+            this.plugin.toggleSavedRegex(savedRegexItem, currentActiveView.editor, currentActiveView);
             // The 'filter-changed' event will handle the refresh
         } else {
             new Notice('No active Markdown editor to toggle the filter on.');
@@ -1144,6 +2522,92 @@ button.setIcon('trash').setTooltip('Delete Regex')
 
 
 
+initAutoApplyRules(container: HTMLDivElement): void {
+    container.empty();
+    const rules = this.plugin.settings.autoApplyRules;
+    if (rules.length === 0) {
+        container.createEl('p', { text: 'No auto-apply rules yet.' });
+        return;
+    }
+    const typeLabels: Record<AutoApplyRuleType, string> = { folder: 'Folder', tag: 'Tag', filename: 'Filename' };
+    rules.forEach((rule, index) => {
+        const filterNames = rule.savedRegexIds
+            .map(id => this.plugin.settings.savedRegexes.find(item => item.id === id))
+            .filter((item): item is SavedRegexItem => item !== undefined)
+            .map(item => item.name?.trim() || `/${this.plugin.truncateRegex(item.regex)}/`);
+        new Setting(container)
+            .setName(`${typeLabels[rule.type]}: ${rule.pattern}`)
+            .setDesc(filterNames.length > 0 ? filterNames.join(', ') : 'No saved filters selected')
+            .addExtraButton(button => button
+                .setIcon('edit')
+                .setTooltip('Edit Rule')
+                .onClick(() => new AutoApplyRuleModal(this.app, this.plugin, this, rule).open()))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete Rule')
+                .onClick(async () => {
+                    this.plugin.settings.autoApplyRules.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.initAutoApplyRules(container);
+                }));
+    });
+}
+
+initPresets(container: HTMLDivElement): void {
+    container.empty();
+    const presets = this.plugin.settings.presets;
+    if (presets.length === 0) {
+        container.createEl('p', { text: 'No presets yet.' });
+        return;
+    }
+    presets.forEach((preset, index) => {
+        const filterCount = preset.savedRegexIds.filter(id => this.plugin.settings.savedRegexes.some(item => item.id === id)).length;
+        const overrideCount = Object.keys(preset.options).length;
+        new Setting(container)
+            .setName(preset.name)
+            .setDesc(`${filterCount} ${filterCount === 1 ? 'filter' : 'filters'}, ${overrideCount} option ${overrideCount === 1 ? 'override' : 'overrides'}`)
+            .addExtraButton(button => button
+                .setIcon('edit')
+                .setTooltip('Edit Preset')
+                .onClick(() => new PresetModal(this.app, this.plugin, this, preset).open()))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete Preset')
+                .onClick(async () => {
+                    this.plugin.settings.presets.splice(index, 1);
+                    this.plugin.unregisterPresetCommand(preset.id);
+                    await this.plugin.saveSettings();
+                    this.initPresets(container);
+                }));
+    });
+}
+
+initSnippets(container: HTMLDivElement): void {
+    container.empty();
+    const snippets = this.plugin.settings.customSnippets;
+    if (snippets.length === 0) {
+        container.createEl('p', { text: 'No custom snippets yet.' });
+        return;
+    }
+    snippets.forEach((snippet, index) => {
+        new Setting(container)
+            .setName(snippet.name)
+            .setDesc(snippet.description ? `${snippet.description} — ${snippet.pattern}` : snippet.pattern)
+            .addExtraButton(button => button
+                .setIcon('edit')
+                .setTooltip('Edit Snippet')
+                .onClick(() => new SnippetModal(this.app, this.plugin, this, snippet).open()))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete Snippet')
+                .onClick(async () => {
+                    this.plugin.settings.customSnippets.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.initSnippets(container);
+                }));
+    });
+}
+
 async removeSavedRegex(index: number): Promise<void> {
 
 const savedRegexes = this.plugin.settings.savedRegexes || [];
@@ -1156,15 +2620,16 @@ if (removedItem) {
                 const cm = (leaf.view.editor as any).cm as EditorView;
                 if (cm) {
                     const state = cm.state.field(filterStateField, false);
-                    if (state && state.unresolvedRegexStrings.includes(removedItem.regex)) {
+                    const activeFilter = state?.activeFilters.find(f => isFromSavedRegex(f, removedItem));
+                    if (activeFilter) {
                         const currentSelection = cm.state.selection;
                                                 cm.dispatch({
-                                                    effects: toggleSpecificRegexStringEffect.of(removedItem.regex),
+                                                    effects: toggleActiveFilterEffect.of(activeFilter),
                                                     selection: currentSelection
                                                 }); // This will remove it
                                                 
                                                 // After dispatch, the state is updated. Get the new state and save it.
-                                                const newFilters = cm.state.field(filterStateField).unresolvedRegexStrings;
+                                                const newFilters = cm.state.field(filterStateField).activeFilters;
                                                 if (leaf.view.file) {
                                                     this.plugin.saveFiltersForFile(leaf.view.file.path, newFilters);
                                                 }
@@ -1177,7 +2642,12 @@ if (removedItem) {
 
 savedRegexes.splice(index, 1);
 this.plugin.settings.savedRegexes = savedRegexes;
+for (const bundle of [...this.plugin.settings.autoApplyRules, ...this.plugin.settings.presets]) {
+    bundle.savedRegexIds = bundle.savedRegexIds.filter(id => id !== removedItem.id);
+}
 await this.plugin.saveSettings();
+this.initAutoApplyRules(this.autoApplyRulesDiv);
+this.initPresets(this.presetsDiv);
 this.plugin.unregisterCommandForSavedRegex(removedItem.id);
 this.initExistingSavedRegexes(this.savedRegexesDiv);
 new Notice(`Removed saved regex: /${this.plugin.truncateRegex(removedItem.regex)}/`);
@@ -1193,21 +2663,419 @@ this.plugin.events.trigger('filter-changed');
 
 
 
+// --- Modal Class definition (AutoApplyRuleModal) ---
+
+export class AutoApplyRuleModal extends Modal {
+    plugin: RegexLineFilterPlugin;
+    settingsTab: RegexLineFilterSettingTab;
+    existingRule: AutoApplyRule | null;
+    type: AutoApplyRuleType;
+    pattern: string;
+    savedRegexIds: string[];
+
+    constructor(app: App, plugin: RegexLineFilterPlugin, settingsTab: RegexLineFilterSettingTab, existingRule: AutoApplyRule | null) {
+        super(app);
+        this.plugin = plugin;
+        this.settingsTab = settingsTab;
+        this.existingRule = existingRule;
+        this.type = existingRule?.type ?? 'folder';
+        this.pattern = existingRule?.pattern ?? "";
+        this.savedRegexIds = existingRule ? [...existingRule.savedRegexIds] : [];
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.existingRule ? 'Edit Auto-apply Rule' : 'Add Auto-apply Rule' });
+
+        const placeholders: Record<AutoApplyRuleType, string> = {
+            folder: 'e.g., Projects or Projects/**/Meetings/*',
+            tag: 'e.g., #work',
+            filename: 'e.g., ^\\d{4}-\\d{2}-\\d{2}$',
+        };
+        let patternInputEl: HTMLInputElement;
+        new Setting(contentEl)
+            .setName('Match notes by')
+            .addDropdown(dropdown => dropdown
+                .addOption('folder', 'Folder (glob)')
+                .addOption('tag', 'Tag')
+                .addOption('filename', 'Filename (regex)')
+                .setValue(this.type)
+                .onChange(value => {
+                    this.type = value as AutoApplyRuleType;
+                    patternInputEl.placeholder = placeholders[this.type];
+                }));
+        new Setting(contentEl)
+            .setName('Pattern')
+            .setDesc('Folder globs use * within a folder and ** across folders. Filename regexes are tested against the name without extension.')
+            .addText(text => {
+                patternInputEl = text.inputEl;
+                text.setPlaceholder(placeholders[this.type])
+                    .setValue(this.pattern)
+                    .onChange(value => this.pattern = value);
+                patternInputEl.style.width = '100%';
+            });
+
+        contentEl.createEl('h3', { text: 'Filters to apply' });
+        const savedRegexes = this.plugin.settings.savedRegexes;
+        if (savedRegexes.length === 0) {
+            contentEl.createEl('p', { text: 'No saved regex filters yet. Add some under "Saved Regex Filters" first.' });
+        }
+        for (const item of savedRegexes) {
+            const isParameterised = hasFilterParameters(item.regex);
+            const setting = new Setting(contentEl)
+                .setName(item.name?.trim() || `/${this.plugin.truncateRegex(item.regex)}/`)
+                .addToggle(toggle => toggle
+                    .setValue(this.savedRegexIds.includes(item.id))
+                    .setDisabled(isParameterised && !this.savedRegexIds.includes(item.id))
+                    .onChange(value => {
+                        this.savedRegexIds = value
+                            ? [...this.savedRegexIds, item.id]
+                            : this.savedRegexIds.filter(id => id !== item.id);
+                    }));
+            if (isParameterised) {
+                setting.setDesc('Asks for placeholder values when toggled, so it cannot be applied automatically.');
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button.setButtonText(this.existingRule ? 'Save Changes' : 'Add Rule').setCta().onClick(() => this.doSubmit()))
+            .addButton(button => button.setButtonText('Cancel').onClick(() => this.close()));
+    }
+
+    async doSubmit() {
+        const pattern = this.pattern.trim();
+        if (pattern === "") {
+            new Notice('Pattern cannot be empty.');
+            return;
+        }
+        if (this.type === 'filename') {
+            try {
+                new RegExp(pattern, 'u');
+            } catch (e) {
+                new Notice(`Invalid regex: ${(e as Error).message}`);
+                return;
+            }
+        }
+        if (this.savedRegexIds.length === 0) {
+            new Notice('Select at least one saved filter.');
+            return;
+        }
+        const parameterised = this.plugin.settings.savedRegexes.filter(item => this.savedRegexIds.includes(item.id) && hasFilterParameters(item.regex));
+        if (parameterised.length > 0) {
+            new Notice(`Filters with {{?placeholders}} cannot be applied automatically: ${parameterised.map(item => item.name?.trim() || item.regex).join(', ')}`);
+            return;
+        }
+
+        if (this.existingRule) {
+            this.existingRule.type = this.type;
+            this.existingRule.pattern = pattern;
+            this.existingRule.savedRegexIds = this.savedRegexIds;
+        } else {
+            this.plugin.settings.autoApplyRules.push({
+                id: Date.now().toString(36) + Math.random().toString(36).substring(2, 9),
+                type: this.type,
+                pattern,
+                savedRegexIds: this.savedRegexIds,
+            });
+        }
+        await this.plugin.saveSettings();
+        this.settingsTab.initAutoApplyRules(this.settingsTab.autoApplyRulesDiv);
+        this.close();
+    }
+
+    onClose() { this.contentEl.empty(); }
+}
+
+
+
+
+// --- Modal Class definition (PresetModal) ---
+
+export class PresetModal extends Modal {
+    plugin: RegexLineFilterPlugin;
+    settingsTab: RegexLineFilterSettingTab;
+    existingPreset: FilterPreset | null;
+    name: string;
+    savedRegexIds: string[];
+    options: PresetOptions;
+
+    constructor(app: App, plugin: RegexLineFilterPlugin, settingsTab: RegexLineFilterSettingTab, existingPreset: FilterPreset | null) {
+        super(app);
+        this.plugin = plugin;
+        this.settingsTab = settingsTab;
+        this.existingPreset = existingPreset;
+        this.name = existingPreset?.name ?? "";
+        this.savedRegexIds = existingPreset ? [...existingPreset.savedRegexIds] : [];
+        this.options = existingPreset ? { ...existingPreset.options } : {};
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.existingPreset ? 'Edit Preset' : 'Add Preset' });
+
+        new Setting(contentEl)
+            .setName('Preset name')
+            .setDesc('Used in the "Toggle Preset" command name.')
+            .addText(text => text
+                .setPlaceholder('e.g., Weekly review')
+                .setValue(this.name)
+                .onChange(value => this.name = value));
+
+        contentEl.createEl('h3', { text: 'Filters' });
+        const savedRegexes = this.plugin.settings.savedRegexes;
+        if (savedRegexes.length === 0) {
+            contentEl.createEl('p', { text: 'No saved regex filters yet. Add some under "Saved Regex Filters" first.' });
+        }
+        for (const item of savedRegexes) {
+            new Setting(contentEl)
+                .setName(item.name?.trim() || `/${this.plugin.truncateRegex(item.regex)}/`)
+                .addToggle(toggle => toggle
+                    .setValue(this.savedRegexIds.includes(item.id))
+                    .onChange(value => {
+                        this.savedRegexIds = value
+                            ? [...this.savedRegexIds, item.id]
+                            : this.savedRegexIds.filter(id => id !== item.id);
+                    }));
+        }
+
+        contentEl.createEl('h3', { text: 'Options' });
+        const booleanOptions: [keyof PresetOptions, string][] = [
+            ['hideEmptyLines', 'Hide empty lines'],
+            ['includeChildItems', 'Include indents under filter match'],
+            ['includeHeadingChildItems', 'Include section when heading/title matches'],
+        ];
+        for (const [key, label] of booleanOptions) {
+            new Setting(contentEl)
+                .setName(label)
+                .addDropdown(dropdown => dropdown
+                    .addOption('', 'Keep current')
+                    .addOption('on', 'On')
+                    .addOption('off', 'Off')
+                    .setValue(this.options[key] === undefined ? '' : this.options[key] ? 'on' : 'off')
+                    .onChange(value => this.setOption(key, value === '' ? undefined : value === 'on')));
+        }
+        new Setting(contentEl)
+            .setName('Combine active filters')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Keep current')
+                .addOption('any', 'Any (OR)')
+                .addOption('all', 'All (AND)')
+                .setValue(this.options.combineMode ?? '')
+                .onChange(value => this.setOption('combineMode', value === '' ? undefined : value as FilterCombineMode)));
+        const contextOptions: [keyof PresetOptions, string][] = [
+            ['contextLinesBefore', 'Context lines before match'],
+            ['contextLinesAfter', 'Context lines after match'],
+        ];
+        for (const [key, label] of contextOptions) {
+            new Setting(contentEl)
+                .setName(label)
+                .addText(text => {
+                    text.inputEl.type = 'number';
+                    text.inputEl.min = '0';
+                    text.setPlaceholder('Keep current')
+                        .setValue(this.options[key] === undefined ? '' : String(this.options[key]))
+                        .onChange(value => {
+                            const parsed = Number(value.trim());
+                            this.setOption(key, value.trim() !== '' && Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined);
+                        });
+                });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button.setButtonText(this.existingPreset ? 'Save Changes' : 'Add Preset').setCta().onClick(() => this.doSubmit()))
+            .addButton(button => button.setButtonText('Cancel').onClick(() => this.close()));
+    }
+
+    setOption<K extends keyof PresetOptions>(key: K, value: PresetOptions[K] | undefined) {
+        if (value === undefined) {
+            delete this.options[key];
+        } else {
+            this.options[key] = value;
+        }
+    }
+
+    async doSubmit() {
+        const name = this.name.trim();
+        if (name === "") {
+            new Notice('Preset name cannot be empty.');
+            return;
+        }
+        if (this.savedRegexIds.length === 0) {
+            new Notice('Select at least one saved filter.');
+            return;
+        }
+
+        let preset: FilterPreset;
+        if (this.existingPreset) {
+            preset = this.existingPreset;
+            preset.name = name;
+            preset.savedRegexIds = this.savedRegexIds;
+            preset.options = this.options;
+        } else {
+            preset = {
+                id: Date.now().toString(36) + Math.random().toString(36).substring(2, 9),
+                name,
+                savedRegexIds: this.savedRegexIds,
+                options: this.options,
+            };
+            this.plugin.settings.presets.push(preset);
+        }
+        this.plugin.registerPresetCommand(preset);
+        await this.plugin.saveSettings();
+        this.settingsTab.initPresets(this.settingsTab.presetsDiv);
+        this.close();
+    }
+
+    onClose() { this.contentEl.empty(); }
+}
+
+
+
+
+export class SnippetModal extends Modal {
+    plugin: RegexLineFilterPlugin;
+    settingsTab: RegexLineFilterSettingTab;
+    existingSnippet: RegexSnippet | null;
+    name: string;
+    pattern: string;
+    description: string;
+
+    constructor(app: App, plugin: RegexLineFilterPlugin, settingsTab: RegexLineFilterSettingTab, existingSnippet: RegexSnippet | null) {
+        super(app);
+        this.plugin = plugin;
+        this.settingsTab = settingsTab;
+        this.existingSnippet = existingSnippet;
+        this.name = existingSnippet?.name ?? "";
+        this.pattern = existingSnippet?.pattern ?? "";
+        this.description = existingSnippet?.description ?? "";
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.existingSnippet ? 'Edit Snippet' : 'Add Snippet' });
+
+        new Setting(contentEl)
+            .setName('Snippet name')
+            .setDesc('Shown in the snippet picker.')
+            .addText(text => text
+                .setPlaceholder('e.g., Meeting action item')
+                .setValue(this.name)
+                .onChange(value => this.name = value));
+        new Setting(contentEl)
+            .setName('Pattern')
+            .setDesc('The regex to insert. {{?Name}} or {{?Name|a,b,c}} placeholders are asked for and escaped on insertion.')
+            .addText(text => {
+                text.setPlaceholder('e.g., ^- \\[ \\] .*@{{?Person}}')
+                    .setValue(this.pattern)
+                    .onChange(value => this.pattern = value);
+                text.inputEl.style.width = '100%';
+            });
+        new Setting(contentEl)
+            .setName('Description (optional)')
+            .addText(text => text
+                .setValue(this.description)
+                .onChange(value => this.description = value));
+
+        new Setting(contentEl)
+            .addButton(button => button.setButtonText(this.existingSnippet ? 'Save Changes' : 'Add Snippet').setCta().onClick(() => this.doSubmit()))
+            .addButton(button => button.setButtonText('Cancel').onClick(() => this.close()));
+    }
+
+    async doSubmit() {
+        const name = this.name.trim();
+        const pattern = this.pattern.trim();
+        if (name === "" || pattern === "") {
+            new Notice('Snippet name and pattern cannot be empty.');
+            return;
+        }
+        // Check the pattern as it would be used, with sample values for its placeholders
+        const sampleValues: Record<string, string> = {};
+        findFilterParameters(pattern).forEach(parameter => sampleValues[parameter.name] = parameter.options[0] ?? 'x');
+        const error = validateRegex(this.plugin.resolveRegexString(fillFilterParameters(pattern, sampleValues)), 'u');
+        if (error) {
+            new Notice(`Invalid regex: ${error.message}`);
+            return;
+        }
+
+        const description = this.description.trim() || undefined;
+        if (this.existingSnippet) {
+            this.existingSnippet.name = name;
+            this.existingSnippet.pattern = pattern;
+            this.existingSnippet.description = description;
+        } else {
+            this.plugin.settings.customSnippets.push({
+                id: Date.now().toString(36) + Math.random().toString(36).substring(2, 9),
+                name,
+                pattern,
+                description,
+            });
+        }
+        await this.plugin.saveSettings();
+        this.settingsTab.initSnippets(this.settingsTab.snippetsDiv);
+        this.close();
+    }
+
+    onClose() { this.contentEl.empty(); }
+}
+
+// Fuzzy picker over the built-in and custom snippets
+export class SnippetSuggestModal extends FuzzySuggestModal<RegexSnippet> {
+    snippets: RegexSnippet[];
+    onChoose: (snippet: RegexSnippet) => void;
+
+    constructor(app: App, snippets: RegexSnippet[], onChoose: (snippet: RegexSnippet) => void) {
+        super(app);
+        this.snippets = snippets;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Insert a regex snippet…');
+    }
+
+    getItems(): RegexSnippet[] {
+        return this.snippets;
+    }
+
+    getItemText(snippet: RegexSnippet): string {
+        return snippet.description ? `${snippet.name} ${snippet.description}` : snippet.name;
+    }
+
+    renderSuggestion(match: FuzzyMatch<RegexSnippet>, el: HTMLElement) {
+        const snippet = match.item;
+        el.createDiv({ text: snippet.name });
+        const detailEl = el.createDiv({ cls: 'regex-filter-snippet-detail' });
+        if (snippet.description) detailEl.createDiv({ text: snippet.description });
+        detailEl.createEl('code', { text: snippet.pattern });
+    }
+
+    onChooseItem(snippet: RegexSnippet) {
+        this.onChoose(snippet);
+    }
+}
+
+
+
+
 // --- Modal Class definition (RegexInputModal) ---
 
 export class RegexInputModal extends Modal {
 
 result: string;
-onSubmit: (result: string | null, isPinned: boolean) => void;
+onSubmit: (result: string | null, isPinned: boolean, polarity: FilterPolarity) => void;
 initialValue: string;
+polarity: FilterPolarity;
 history: string[];
 inputComponent: Setting;
 textInputEl: HTMLInputElement | null = null;
 plugin: RegexLineFilterPlugin;
+previewEl: HTMLElement;
+noteLines: string[] | null = null; // The current note, for the live match preview
+isValid = true;
 
 
 
-constructor(app: App, plugin: RegexLineFilterPlugin, initialValue: string, history: string[], onSubmit: (result: string | null, isPinned: boolean) => void) {
+constructor(app: App, plugin: RegexLineFilterPlugin, initialValue: string, history: string[], onSubmit: (result: string | null, isPinned: boolean, polarity: FilterPolarity) => void, initialPolarity: FilterPolarity = 'include') {
 
 super(app);
 this.plugin = plugin;
@@ -1215,23 +3083,41 @@ this.initialValue = initialValue;
 this.history = history;
 this.onSubmit = onSubmit;
 this.result = initialValue;
+this.polarity = initialPolarity;
 }
 
 onOpen() {
 
 const { contentEl } = this; contentEl.empty(); contentEl.createEl('h2', { text: 'Enter regex filter' });
 this.inputComponent = new Setting(contentEl).setName('Regular expression (supports Unicode):')
+.setDesc('Use /pattern/flags to add flags, e.g. /todo/i for case-insensitive matching. Supported flags: i, m, s. Compare named groups with a where clause, e.g. (?<est>\\d+)h where est > 4.')
 .addText((text) => {
     this.textInputEl = text.inputEl;
     text.setValue(this.initialValue).setPlaceholder('e.g., ^\\s*- \\[ \\].*💡').onChange((value) => {
         this.result = value;
-        // When user types, check if the new regex matches a saved one and update pin status
-        const existing = this.plugin.settings.savedRegexes.find(r => r.regex === value);
+        this.updatePreviewDebounced();
     });
     text.inputEl.focus(); text.inputEl.select();
     text.inputEl.addEventListener('keydown', (e) => { if (e.key==='Enter'&&!e.shiftKey&&!e.ctrlKey&&!e.metaKey&&!e.altKey) {e.preventDefault();this.submit();}});
 })
+.addExtraButton(button => button
+    .setIcon('puzzle')
+    .setTooltip('Insert snippet')
+    .onClick(() => { if (this.textInputEl) this.plugin.pickSnippet(this.textInputEl); }));
 this.inputComponent.controlEl.addClass('regex-filter-input-control');
+this.previewEl = contentEl.createDiv({ cls: 'regex-filter-preview' });
+const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+this.noteLines = activeView ? activeView.editor.getValue().split('\n') : null;
+this.updatePreview();
+new Setting(contentEl)
+    .setName('Exclude matching lines')
+    .setDesc('Hide lines that match instead of showing them.')
+    .addToggle(toggle => toggle
+        .setValue(this.polarity === 'exclude')
+        .onChange(value => {
+            this.polarity = value ? 'exclude' : 'include';
+            this.updatePreview();
+        }));
 // --- Pinned & History Display ---
 const pinnedItems = this.plugin.settings.pinnedRegexes || [];
 const historyItems = (this.history || []).filter(histEntry => !pinnedItems.includes(histEntry));
@@ -1260,16 +3146,21 @@ footerEl.setText('Pin items from history to keep them here. Pinned items can be
 new Setting(contentEl)
 
             .addButton((btn) => btn.setButtonText('Apply filter').setCta().onClick(() => { this.submit(); }))
-            .addButton((btn) => btn.setButtonText('Cancel').onClick(() => { this.close(); this.onSubmit(null, false); }));
+            .addButton((btn) => btn.setButtonText('Cancel').onClick(() => { this.close(); this.onSubmit(null, false, this.polarity); }));
     }
 
 submit() {
 if (this.result && this.result.trim().length > 0) {
+    this.updatePreview();
+    if (!this.isValid) { // The error is shown in the preview
+        this.textInputEl?.focus();
+        return;
+    }
     this.close();
-    this.onSubmit(this.result, false); // isPinned is no longer relevant at modal submission level
+    this.onSubmit(this.result, false, this.polarity); // isPinned is no longer relevant at modal submission level
 } else if (this.result.trim() === "") { // Allow empty string to signify clearing
     this.close();
-    this.onSubmit(this.result.trim(), false); // Cannot pin an empty regex
+    this.onSubmit(this.result.trim(), false, this.polarity); // Cannot pin an empty regex
 }
 
 else { new Notice("Please enter a valid regular expression or leave empty to clear."); if(this.textInputEl) this.textInputEl.focus(); }
@@ -1278,6 +3169,93 @@ else { new Notice("Please enter a valid regular expression or leave empty to cle
 
 onClose() { this.contentEl.empty(); }
 
+updatePreviewDebounced = debounce(() => this.updatePreview(), 150, true);
+
+// Shows the resolved pattern, an inline syntax error, or the matching lines of the current note
+updatePreview() {
+    const previewEl = this.previewEl;
+    previewEl.empty();
+    this.isValid = true;
+    const input = this.result.trim();
+    if (input === "") {
+        previewEl.createDiv({ cls: 'regex-filter-preview-summary', text: 'Leave empty to clear the filter.' });
+        return;
+    }
+
+    let parsed: ParsedRegexInput;
+    try {
+        parsed = parseRegexInput(input);
+    } catch (e) {
+        this.isValid = false;
+        previewEl.createDiv({ cls: 'regex-filter-preview-error', text: (e as Error).message });
+        return;
+    }
+    const resolved = this.plugin.resolveRegexString(parsed.regex);
+    if (this.plugin.settings.enableTemplateVariables && resolved !== parsed.regex) {
+        const resolvedEl = previewEl.createDiv({ cls: 'regex-filter-preview-resolved', text: 'Resolves to ' });
+        resolvedEl.createEl('code', { text: formatRegexLiteral(this.plugin.truncateRegex(resolved), parsed.flags) });
+    }
+
+    // The where clause is checked first; syntax errors are then located in the regex part
+    let source: string;
+    try {
+        source = parseFilterPattern(parsed.regex, s => this.plugin.resolveRegexString(s)).source;
+    } catch (e) {
+        this.isValid = false;
+        previewEl.createDiv({ cls: 'regex-filter-preview-error', text: (e as Error).message });
+        return;
+    }
+    const error = validateRegex(source, regexFlagsFor(parsed));
+    if (error) {
+        this.isValid = false;
+        const errorEl = previewEl.createDiv({ cls: 'regex-filter-preview-error' });
+        errorEl.createDiv({ text: error.index === null ? error.message : `${error.message} (at position ${error.index + 1})` });
+        if (error.index !== null) {
+            // Point at the offending character of the pattern that was compiled
+            const patternEl = errorEl.createEl('code', { cls: 'regex-filter-preview-pattern' });
+            patternEl.appendText(source.slice(0, error.index));
+            patternEl.createSpan({ cls: 'regex-filter-preview-error-char', text: source.charAt(error.index) });
+            patternEl.appendText(source.slice(error.index + 1));
+        }
+        return;
+    }
+
+    if (!this.noteLines) return;
+    // Count direct matches like the editor does, i.e. honouring skip zones
+    const filter: ActiveFilter = { regex: parsed.regex, polarity: 'include', flags: parsed.flags };
+    const { lines, compiled } = this.plugin.computeVisibilityForText(this.noteLines, [filter]);
+    const matching: number[] = [];
+    lines.forEach((info, lineNumber) => {
+        if (info && info.include) matching.push(lineNumber);
+    });
+    const total = this.noteLines.length;
+    const verb = this.polarity === 'exclude' ? 'would be hidden' : 'match';
+    previewEl.createDiv({
+        cls: 'regex-filter-preview-summary',
+        text: `${matching.length} of ${total} ${total === 1 ? 'line' : 'lines'} ${verb} in this note`,
+    });
+
+    const listEl = previewEl.createDiv({ cls: 'regex-filter-preview-lines' });
+    for (const lineNumber of matching.slice(0, PREVIEW_LINE_LIMIT)) {
+        const text = this.noteLines[lineNumber - 1];
+        const lineEl = listEl.createDiv({ cls: 'regex-filter-preview-line' });
+        lineEl.createSpan({ cls: 'regex-filter-preview-line-number', text: String(lineNumber) });
+        const textEl = lineEl.createSpan();
+        // Highlight the first match of the line
+        const span = compiled ? findMatchSpans(text, compiled.highlighters, false)[0] : undefined;
+        if (span) {
+            textEl.appendText(text.slice(0, span.from));
+            textEl.createSpan({ cls: 'regex-filter-match regex-filter-match-0', text: text.slice(span.from, span.to) });
+            textEl.appendText(text.slice(span.to));
+        } else {
+            textEl.setText(text);
+        }
+    }
+    if (matching.length > PREVIEW_LINE_LIMIT) {
+        listEl.createDiv({ cls: 'regex-filter-preview-more', text: `…and ${matching.length - PREVIEW_LINE_LIMIT} more` });
+    }
+}
+
 createHistoryItem(container: HTMLElement, regexString: string, isPinned: boolean) {
     const itemContainer = container.createDiv({ cls: 'regex-history-item-container' });
     if (isPinned) {
@@ -1288,7 +3266,7 @@ createHistoryItem(container: HTMLElement, regexString: string, isPinned: boolean
     textEl.addEventListener('click', () => {
         this.result = regexString;
         this.close();
-        this.onSubmit(this.result, isPinned);
+        this.onSubmit(this.result, isPinned, this.polarity);
     });
 
     const controlsContainer = itemContainer.createDiv({ cls: 'regex-item-controls' });
@@ -1345,6 +3323,169 @@ createHistoryItem(container: HTMLElement, regexString: string, isPinned: boolean
 
 
 
+// --- FilterExpressionModal Class ---
+
+export class FilterExpressionModal extends Modal {
+
+result: string;
+savedFilterNames: string[]; // Names of the saved filters the expression can reference
+onSubmit: (result: string | null) => void;
+inputEl: HTMLInputElement;
+
+constructor(app: App, initialValue: string, savedFilterNames: string[], onSubmit: (result: string | null) => void) {
+    super(app);
+    this.result = initialValue;
+    this.savedFilterNames = savedFilterNames;
+    this.onSubmit = onSubmit;
+}
+
+onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Filter expression' });
+
+    new Setting(contentEl)
+        .setName('Combine active filters')
+        .setDesc('Reference saved filters by name, e.g. work & !done or (work | home) AND NOT done. Quote names containing spaces. Leave empty to use the Any/All mode.')
+        .addText(text => {
+            this.inputEl = text.inputEl;
+            text.setValue(this.result)
+                .setPlaceholder('e.g., work & !done')
+                .onChange(value => this.result = value);
+            this.inputEl.style.width = '100%';
+            this.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+                if (e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey) {
+                    e.preventDefault();
+                    this.submit();
+                }
+            });
+        });
+
+    new Setting(contentEl)
+        .addButton(button => button.setButtonText('Apply').setCta().onClick(() => this.submit()))
+        .addButton(button => button.setButtonText('Cancel').onClick(() => { this.close(); this.onSubmit(null); }));
+
+    this.inputEl.focus();
+}
+
+submit() {
+    const trimmed = this.result.trim();
+    if (trimmed !== "") {
+        let expression: FilterExpressionNode;
+        try {
+            expression = FilterExpression.parse(trimmed);
+        } catch (e) {
+            new Notice(`Invalid filter expression: ${(e as Error).message}`);
+            this.inputEl.focus();
+            return;
+        }
+        // Still applied, as the saved filter may be added or renamed later; until then the name never matches
+        const known = this.savedFilterNames.map(name => name.trim().toLowerCase());
+        const unknown = FilterExpression.references(expression).filter(name => !known.includes(name.trim().toLowerCase()));
+        if (unknown.length > 0) {
+            new Notice(`No saved filter is named ${unknown.map(name => `"${name}"`).join(', ')}; these names never match.`);
+        }
+    }
+    this.close();
+    this.onSubmit(trimmed);
+}
+
+onClose() { this.contentEl.empty(); }
+
+}
+
+
+
+
+// Collects the values of a parameterised saved filter's {{?placeholders}}
+export class FilterParametersModal extends Modal {
+
+title: string;
+parameters: FilterParameter[];
+recentAnswers: Record<string, string[]>;
+values: Record<string, string> = {};
+onSubmit: (values: Record<string, string> | null) => void;
+submitted = false;
+
+constructor(app: App, title: string, parameters: FilterParameter[], recentAnswers: Record<string, string[]>, onSubmit: (values: Record<string, string> | null) => void) {
+    super(app);
+    this.title = title;
+    this.parameters = parameters;
+    this.recentAnswers = recentAnswers;
+    this.onSubmit = onSubmit;
+}
+
+onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: this.title });
+
+    let firstInputEl: HTMLElement | null = null;
+    this.parameters.forEach((parameter, index) => {
+        const recent = this.recentAnswers[parameter.name] ?? [];
+        const setting = new Setting(contentEl).setName(parameter.name);
+        if (parameter.options.length > 0) {
+            // Recently used options first
+            const options = [...recent.filter(answer => parameter.options.includes(answer)), ...parameter.options.filter(option => !recent.includes(option))];
+            this.values[parameter.name] = options[0];
+            setting.addDropdown(dropdown => {
+                options.forEach(option => dropdown.addOption(option, option));
+                dropdown.setValue(options[0]).onChange(value => this.values[parameter.name] = value);
+                firstInputEl ??= dropdown.selectEl;
+            });
+        } else {
+            this.values[parameter.name] = recent[0] ?? "";
+            setting.addText(text => {
+                // Recent answers are offered as suggestions while typing
+                const listId = `regex-filter-parameter-${index}`;
+                const listEl = contentEl.createEl('datalist', { attr: { id: listId } });
+                recent.forEach(answer => listEl.createEl('option', { value: answer }));
+                text.inputEl.setAttribute('list', listId);
+                text.setValue(this.values[parameter.name])
+                    .onChange(value => this.values[parameter.name] = value);
+                text.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+                    if (e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey) {
+                        e.preventDefault();
+                        this.submit();
+                    }
+                });
+                firstInputEl ??= text.inputEl;
+            });
+        }
+    });
+
+    new Setting(contentEl)
+        .addButton(button => button.setButtonText('Apply').setCta().onClick(() => this.submit()))
+        .addButton(button => button.setButtonText('Cancel').onClick(() => this.close()));
+
+    (firstInputEl as HTMLElement | null)?.focus();
+}
+
+submit() {
+    const values: Record<string, string> = {};
+    for (const parameter of this.parameters) {
+        const value = this.values[parameter.name].trim();
+        if (value === "") {
+            new Notice(`Enter a value for ${parameter.name}.`);
+            return;
+        }
+        values[parameter.name] = value;
+    }
+    this.submitted = true;
+    this.close();
+    this.onSubmit(values);
+}
+
+onClose() {
+    this.contentEl.empty();
+    if (!this.submitted) this.onSubmit(null);
+}
+
+}
+
+
+
+
 // --- AddSavedRegexModal Class ---
 
 export class AddSavedRegexModal extends Modal {
@@ -1353,6 +3494,11 @@ plugin: RegexLineFilterPlugin; settingsTab: RegexLineFilterSettingTab; existingI
 itemIndex: number;
 currentRegexText: string;
 currentNameText: string;
+currentPolarity: FilterPolarity;
+currentFlagsText: string;
+currentContextBeforeText: string;
+currentContextAfterText: string;
+currentOverrides: FilterOptionOverrides;
 nameInputEl: HTMLInputElement;
 regexInputEl: HTMLInputElement;
 
@@ -1364,6 +3510,15 @@ constructor(app: App, plugin: RegexLineFilterPlugin, settingsTab: RegexLineFilte
     this.itemIndex = itemIndex;
     this.currentRegexText = existingItemToEdit ? existingItemToEdit.regex : "";
     this.currentNameText = existingItemToEdit ? (existingItemToEdit.name || "") : "";
+    this.currentPolarity = existingItemToEdit?.polarity ?? 'include';
+    this.currentFlagsText = existingItemToEdit?.flags ?? "";
+    this.currentContextBeforeText = existingItemToEdit?.contextLinesBefore?.toString() ?? "";
+    this.currentContextAfterText = existingItemToEdit?.contextLinesAfter?.toString() ?? "";
+    this.currentOverrides = {
+        includeChildItems: existingItemToEdit?.includeChildItems,
+        includeHeadingChildItems: existingItemToEdit?.includeHeadingChildItems,
+        hideEmptyLines: existingItemToEdit?.hideEmptyLines,
+    };
 }
 
 onOpen() {
@@ -1386,7 +3541,9 @@ onOpen() {
     // Regex Input
     new Setting(contentEl)
         .setName('Regular expression')
-        .setDesc("Enter the regex string. It will be compiled with the 'u' (unicode) flag.")
+        .setDesc("Enter the regex string, or a /pattern/flags literal. It will always be compiled with the 'u' (unicode) flag. " +
+            "Placeholders like {{?Person}} or {{?Status|todo,doing,done}} are asked for when the filter is toggled on. " +
+            "End with a clause like where est > 4 to compare named groups.")
         .addText(text => {
             this.regexInputEl = text.inputEl;
             text.setValue(this.currentRegexText)
@@ -1399,8 +3556,66 @@ onOpen() {
                     this.doSubmit();
                 }
             });
+        })
+        .addExtraButton(button => button
+            .setIcon('puzzle')
+            .setTooltip('Insert snippet')
+            .onClick(() => this.plugin.pickSnippet(this.regexInputEl)));
+
+    // Flags Input
+    new Setting(contentEl)
+        .setName('Flags')
+        .setDesc('Extra regex flags: i (case-insensitive), m (multiline), s (dotAll).')
+        .addText(text => text
+            .setValue(this.currentFlagsText)
+            .setPlaceholder('e.g., i')
+            .onChange(value => this.currentFlagsText = value));
+
+    // Context Line Overrides
+    new Setting(contentEl)
+        .setName('Context lines (before / after)')
+        .setDesc('Override the global context line settings for this filter. Leave empty to use the global values.')
+        .addText(text => {
+            text.inputEl.type = 'number';
+            text.inputEl.min = '0';
+            text.setValue(this.currentContextBeforeText)
+                .setPlaceholder('before')
+                .onChange(value => this.currentContextBeforeText = value);
+        })
+        .addText(text => {
+            text.inputEl.type = 'number';
+            text.inputEl.min = '0';
+            text.setValue(this.currentContextAfterText)
+                .setPlaceholder('after')
+                .onChange(value => this.currentContextAfterText = value);
         });
 
+    // Option Overrides
+    const overrideOptions: [keyof FilterOptionOverrides, string, string][] = [
+        ['includeChildItems', 'Include indents under filter match', 'Show (or, for exclusions, hide) the indented children of lines this filter matches.'],
+        ['includeHeadingChildItems', 'Include section when heading/title matches', 'Show (or, for exclusions, hide) the section under headings this filter matches.'],
+        ['hideEmptyLines', 'Hide empty lines', 'Hide the blank lines that follow this filter\'s matches.'],
+    ];
+    for (const [key, label, desc] of overrideOptions) {
+        new Setting(contentEl)
+            .setName(label)
+            .setDesc(desc)
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Use editor setting')
+                .addOption('on', 'On')
+                .addOption('off', 'Off')
+                .setValue(this.currentOverrides[key] === undefined ? '' : this.currentOverrides[key] ? 'on' : 'off')
+                .onChange(value => this.currentOverrides[key] = value === '' ? undefined : value === 'on'));
+    }
+
+    // Polarity Toggle
+    new Setting(contentEl)
+        .setName('Exclude matching lines')
+        .setDesc('When enabled, this filter hides the lines it matches instead of showing them.')
+        .addToggle(toggle => toggle
+            .setValue(this.currentPolarity === 'exclude')
+            .onChange(value => this.currentPolarity = value ? 'exclude' : 'include'));
+
     this.nameInputEl.focus();
 
     // Buttons
@@ -1410,8 +3625,30 @@ onOpen() {
 }
 
 async doSubmit() {
-    const trimmedRegex = this.currentRegexText.trim();
     const trimmedName = this.currentNameText.trim();
+    let trimmedRegex: string;
+    let flags: string;
+    try {
+        // A /pattern/flags literal in the regex field takes precedence over the flags field
+        const parsed = parseRegexInput(this.currentRegexText.trim());
+        trimmedRegex = parsed.regex;
+        flags = parsed.flags || normalizeRegexFlags(this.currentFlagsText.trim());
+    } catch (e) {
+        new Notice((e as Error).message);
+        return;
+    }
+
+    const parseOverride = (value: string): number | undefined | null => {
+        if (value.trim() === "") return undefined;
+        const parsed = Number(value.trim());
+        return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+    };
+    const contextLinesBefore = parseOverride(this.currentContextBeforeText);
+    const contextLinesAfter = parseOverride(this.currentContextAfterText);
+    if (contextLinesBefore === null || contextLinesAfter === null) {
+        new Notice("Context lines must be whole numbers of 0 or more.");
+        return;
+    }
 
     if (trimmedRegex === "") {
         new Notice("Regex cannot be empty.");
@@ -1428,24 +3665,29 @@ async doSubmit() {
         const itemToUpdate = savedRegexes[this.itemIndex];
         const oldRegexString = itemToUpdate.regex;
         const oldNameString = itemToUpdate.name || "";
+        const oldPolarity = itemToUpdate.polarity ?? 'include';
+        const oldFlags = itemToUpdate.flags ?? "";
+        const filterChanged = oldRegexString !== trimmedRegex || oldPolarity !== this.currentPolarity || oldFlags !== flags
+            || itemToUpdate.contextLinesBefore !== contextLinesBefore || itemToUpdate.contextLinesAfter !== contextLinesAfter
+            || (Object.keys(this.currentOverrides) as (keyof FilterOptionOverrides)[]).some(key => itemToUpdate[key] !== this.currentOverrides[key]);
 
-        if (oldRegexString !== trimmedRegex || oldNameString !== trimmedName) {
+        if (filterChanged || oldNameString !== trimmedName) {
             changesMade = true;
-            if (oldRegexString !== trimmedRegex) {
-                // If regex string changes, unregister old command, update, register new
+            if (filterChanged) {
+                // If regex string or polarity changes, unregister old command, update, register new
                 this.plugin.unregisterCommandForSavedRegex(itemToUpdate.id);
-                // If the old regex was active, remove it from active filters in all editors
+                // If the old regex was active, swap it for the updated filter in all editors
                 this.app.workspace.iterateAllLeaves(leaf => {
                     if (leaf.view instanceof MarkdownView) {
                         const cm = (leaf.view.editor as any).cm as EditorView;
                         if (cm) {
                             const state = cm.state.field(filterStateField, false);
-                            if (state && state.unresolvedRegexStrings.includes(oldRegexString)) {
+                            if (state && state.activeFilters.some(f => f.regex === oldRegexString)) {
                                 const currentSelection = cm.state.selection;
                                 cm.dispatch({
                                     effects: [
-                                        toggleSpecificRegexStringEffect.of(oldRegexString),
-                                        toggleSpecificRegexStringEffect.of(trimmedRegex)
+                                        toggleActiveFilterEffect.of({ regex: oldRegexString, polarity: oldPolarity }),
+                                        toggleActiveFilterEffect.of(toActiveFilter({ ...itemToUpdate, regex: trimmedRegex, polarity: this.currentPolarity, flags, contextLinesBefore, contextLinesAfter, ...this.currentOverrides }))
                                     ],
                                     selection: currentSelection
                                 });
@@ -1456,6 +3698,13 @@ async doSubmit() {
             }
             itemToUpdate.regex = trimmedRegex;
             itemToUpdate.name = trimmedName;
+            itemToUpdate.polarity = this.currentPolarity;
+            itemToUpdate.flags = flags || undefined;
+            itemToUpdate.contextLinesBefore = contextLinesBefore;
+            itemToUpdate.contextLinesAfter = contextLinesAfter;
+            itemToUpdate.includeChildItems = this.currentOverrides.includeChildItems;
+            itemToUpdate.includeHeadingChildItems = this.currentOverrides.includeHeadingChildItems;
+            itemToUpdate.hideEmptyLines = this.currentOverrides.hideEmptyLines;
             this.plugin.registerToggleCommandForSavedRegex(itemToUpdate); // Re-register to update name if changed
             new Notice('Saved filter updated!');
         }
@@ -1465,7 +3714,14 @@ async doSubmit() {
             id: Date.now().toString(36) + Math.random().toString(36).substring(2, 9),
             name: trimmedName,
             regex: trimmedRegex,
+            polarity: this.currentPolarity,
         };
+        if (flags) newItem.flags = flags;
+        if (contextLinesBefore !== undefined) newItem.contextLinesBefore = contextLinesBefore;
+        if (contextLinesAfter !== undefined) newItem.contextLinesAfter = contextLinesAfter;
+        for (const [key, value] of Object.entries(this.currentOverrides) as [keyof FilterOptionOverrides, boolean | undefined][]) {
+            if (value !== undefined) newItem[key] = value;
+        }
         savedRegexes.push(newItem);
         this.plugin.registerToggleCommandForSavedRegex(newItem);
         new Notice('New filter saved!');
@@ -1473,15 +3729,17 @@ async doSubmit() {
 
     if (changesMade) {
         // Upon saving, remove the item from the temporary pinned list.
-        const pinnedIndex = this.plugin.settings.pinnedRegexes.indexOf(trimmedRegex);
-        if (pinnedIndex > -1) {
-            this.plugin.settings.pinnedRegexes.splice(pinnedIndex, 1);
-        }
+        // Pinned entries keep the raw input, which may be a /pattern/flags literal.
+        this.plugin.settings.pinnedRegexes = this.plugin.settings.pinnedRegexes
+            .filter(pinned => pinned !== trimmedRegex && pinned !== this.currentRegexText.trim());
 
         this.plugin.settings.savedRegexes = savedRegexes;
         await this.plugin.saveSettings();
         this.settingsTab.initExistingSavedRegexes(this.settingsTab.savedRegexesDiv);
-        if (!isNew) this.plugin.updateBodyClassForActiveLeaf();
+        if (!isNew) {
+            this.plugin.refreshFiltersInEditors(); // Renamed filters may be referenced by a filter expression
+            this.plugin.updateBodyClassForActiveLeaf();
+        }
     } else {
         new Notice('No changes were made.');
     }